@@ -7,6 +7,14 @@ import { responseInterceptor, responseTime, securityHeaders } from './middleware
 import userRouter from './routes/user.routes.js';
 import healthRouter from './routes/health.routes.js';
 import llmRouter from './routes/llm.routes.js';
+import conversationRouter from './routes/conversation.routes.js';
+import openaiRouter from './routes/openai.routes.js';
+import usageRouter from './routes/usage.routes.js';
+import knowledgeRouter from './routes/knowledge.routes.js';
+import knowledgeBaseRouter from './routes/knowledgeBase.routes.js';
+import fewShotRouter from './routes/fewShot.routes.js';
+import promptTemplateRouter from './routes/promptTemplate.routes.js';
+import adminRouter from './routes/admin.routes.js';
 
 export function createApp(): Application {
   const app = express();
@@ -17,17 +25,29 @@ export function createApp(): Application {
   // 添加中间件
   app.use(responseTime); // 响应时间计算
   app.use(securityHeaders); // 安全头
-  app.use(responseInterceptor); // 响应拦截
 
-  // 中间件
+  // OpenAI 兼容接口需保持协议原样，挂载在响应拦截之前
+  app.use('/v1', express.json(), requestLogger, openaiRouter);
+
+  // 中间件（请求体需先于响应拦截解析，拦截器才能识别 body 中的 stream 参数）
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
+
+  app.use(responseInterceptor); // 响应拦截
+
   app.use(requestLogger);
 
   // 路由
   app.use('/api/health', healthRouter);
   app.use('/api/users', userRouter);
   app.use('/api/llm', llmRouter);
+  app.use('/api/conversations', conversationRouter);
+  app.use('/api/usage', usageRouter);
+  app.use('/api/knowledge', knowledgeRouter);
+  app.use('/api/knowledge-bases', knowledgeBaseRouter);
+  app.use('/api/few-shot-examples', fewShotRouter);
+  app.use('/api/prompt-templates', promptTemplateRouter);
+  app.use('/api/admin', adminRouter);
 
   // 错误处理中间件（必须放在最后）
   app.use(errorHandler);
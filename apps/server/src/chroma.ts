@@ -1,11 +1,11 @@
-import { ChromaToolbox } from './utils/langchain/chroma.js';
+import { FewShotService } from './services/fewShot.service.js';
 
 async function main() {
   const examples = [
     {
       input: '如何在 Node.js 中安装 LangChain？',
       output: '执行命令：npm install @langchain/core @langchain/community',
-      category: '安装问题', // 可选：元数据，用于过滤
+      category: '安装问题', // 可选：分类，用于筛选
     },
     {
       input: 'Chroma 如何持久化数据？',
@@ -23,12 +23,9 @@ async function main() {
       category: 'Ollama 问题',
     },
   ];
-  const chromaToolbox = ChromaToolbox.fromEnv();
-  const exampleDocuments = ChromaToolbox.toDocuments(examples, (example) => ({
-    category: example.category,
-  }));
-  chromaToolbox.addDocuments(exampleDocuments);
-  const aa = await chromaToolbox.similaritySearch('Ollama', 1);
-  console.log(aa);
+  // 写入少样本示例集合（FEW_SHOT_COLLECTION），对话时按问题相似度选取
+  await FewShotService.create(examples);
+  const selected = await FewShotService.search('Ollama', 1);
+  console.log(selected);
 }
 main();
@@ -1,3 +1,9 @@
+import 'dotenv/config';
+import type { ModelDefaults, ModelProfile, ModelProvider } from '../types/llm.types.js';
+import type { ModelPrice } from '../types/usage.types.js';
+import type { RetrievalMode } from '../types/rag.types.js';
+import type { VectorBackend } from '../types/vector.types.js';
+
 export const config = {
   port: process.env.PORT || 1234,
   env: process.env.NODE_ENV || 'development',
@@ -9,4 +15,295 @@ export const SSE_CONFIG = {
   MIN_CHUNK_SIZE: 10, // 最小数据包大小（字符数）
   THINK_START_MSG: '深度思考中',
   THINK_END_MSG: '已完成思考',
+  REPLAY_BUFFER_SIZE: 1000, // 每次生成最多缓存的事件数，用于断线续传
+  RESUME_GRACE_MS: 30_000, // 客户端全部断开后等待续传的时间，超时则取消生成
+  REPLAY_TTL_MS: 60_000, // 生成结束后保留事件缓存的时间
 } as const;
+
+const MODEL_PROVIDERS: ModelProvider[] = ['deepseek', 'openai', 'ollama'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 读取数值环境变量，未设置时使用默认值
+ * 不是合法数字、不是整数（要求整数时）或超出取值范围时启动失败，避免 NaN 等取值让比较静默失效
+ */
+const readNumber = (
+  name: string,
+  fallback: number,
+  { min = 0, max = Infinity, integer = false }: { min?: number; max?: number; integer?: boolean } = {}
+): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    const range = max === Infinity ? `不小于 ${min} ` : ` ${min} 到 ${max} 之间`;
+    throw new Error(`[Config] ${name} 必须是${range}的${integer ? '整数' : '数字'}: ${raw}`);
+  }
+  return value;
+};
+
+/**
+ * 校验 LLM_MODEL_PROFILES 中的单个配置，只保留已知字段
+ * @param value 配置项
+ * @param index 配置项下标，用于错误信息
+ */
+const parseModelProfile = (value: unknown, index: number): ModelProfile => {
+  const invalid = (message: string): Error => new Error(`[Config] LLM_MODEL_PROFILES[${index}] ${message}`);
+  if (!isRecord(value)) throw invalid('必须是对象');
+  const { name, provider, model, baseURL, apiKey, defaults, description } = value;
+  if (typeof name !== 'string' || !name) throw invalid('缺少 name');
+  if (!MODEL_PROVIDERS.includes(provider as ModelProvider)) throw invalid(`provider 必须是 ${MODEL_PROVIDERS.join('、')} 之一`);
+  if (typeof model !== 'string' || !model) throw invalid('缺少 model');
+  for (const [key, field] of Object.entries({ baseURL, apiKey, description })) {
+    if (field !== undefined && typeof field !== 'string') throw invalid(`${key} 必须是字符串`);
+  }
+  if (defaults !== undefined && !isRecord(defaults)) throw invalid('defaults 必须是对象');
+  const params: ModelDefaults = {};
+  for (const key of ['temperature', 'topP', 'maxTokens'] as const) {
+    const param = defaults?.[key];
+    if (param === undefined) continue;
+    if (typeof param !== 'number' || !Number.isFinite(param)) throw invalid(`defaults.${key} 必须是数字`);
+    params[key] = param;
+  }
+  return {
+    name,
+    provider: provider as ModelProvider,
+    model,
+    ...(typeof baseURL === 'string' && { baseURL }),
+    ...(typeof apiKey === 'string' && { apiKey }),
+    ...(defaults !== undefined && { defaults: params }),
+    ...(typeof description === 'string' && { description }),
+  };
+};
+
+/**
+ * 读取模型配置列表
+ * 优先使用环境变量 LLM_MODEL_PROFILES（JSON 数组），否则根据各提供方的环境变量生成
+ * LLM_MODEL_PROFILES 格式错误时启动失败，避免静默使用非预期的模型
+ */
+const loadModelProfiles = (): ModelProfile[] => {
+  if (process.env.LLM_MODEL_PROFILES) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(process.env.LLM_MODEL_PROFILES);
+    } catch (error) {
+      throw new Error(`[Config] LLM_MODEL_PROFILES 不是合法的 JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(parsed) || !parsed.length) {
+      throw new Error('[Config] LLM_MODEL_PROFILES 必须是非空数组');
+    }
+    const profiles = parsed.map(parseModelProfile);
+    const duplicate = profiles.find((profile, index) => profiles.findIndex((item) => item.name === profile.name) !== index);
+    if (duplicate) {
+      throw new Error(`[Config] LLM_MODEL_PROFILES 中的配置名称重复: ${duplicate.name}`);
+    }
+    return profiles;
+  }
+  const profiles: ModelProfile[] = [
+    {
+      name: 'deepseek',
+      provider: 'deepseek',
+      model: process.env.DEEPSEEK_MODEL || 'deepseek-chat',
+      ...(process.env.DEEPSEEK_BASE_URL && { baseURL: process.env.DEEPSEEK_BASE_URL }),
+      defaults: { temperature: 0.7 },
+    },
+  ];
+  if (process.env.OPENAI_API_KEY) {
+    profiles.push({
+      name: 'openai',
+      provider: 'openai',
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      ...(process.env.OPENAI_BASE_URL && { baseURL: process.env.OPENAI_BASE_URL }),
+      defaults: { temperature: 0.7 },
+    });
+  }
+  if (process.env.OLLAMA_CHAT_MODEL) {
+    profiles.push({
+      name: 'ollama',
+      provider: 'ollama',
+      model: process.env.OLLAMA_CHAT_MODEL,
+      baseURL: process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434',
+      defaults: { temperature: 0.7 },
+    });
+  }
+  return profiles;
+};
+
+// 模型配置
+export const MODEL_CONFIG = {
+  profiles: loadModelProfiles(),
+  // 未指定时使用第一个配置
+  defaultProfile: process.env.LLM_DEFAULT_PROFILE || undefined,
+};
+
+/**
+ * 读取模型价格表（每百万 token 单价）
+ * 优先使用环境变量 LLM_PRICE_TABLE（JSON 对象，键为模型名称）
+ */
+const loadPriceTable = (): Record<string, ModelPrice> => {
+  const defaults: Record<string, ModelPrice> = {
+    'deepseek-chat': { prompt: 2, completion: 3 },
+    'deepseek-reasoner': { prompt: 2, completion: 3 },
+  };
+  if (!process.env.LLM_PRICE_TABLE) return defaults;
+  try {
+    return { ...defaults, ...(JSON.parse(process.env.LLM_PRICE_TABLE) as Record<string, ModelPrice>) };
+  } catch (error) {
+    console.warn('[Config] LLM_PRICE_TABLE 解析失败，使用默认价格表:', error);
+    return defaults;
+  }
+};
+
+// 用量统计配置
+export const USAGE_CONFIG = {
+  prices: loadPriceTable(),
+  currency: process.env.LLM_PRICE_CURRENCY || 'CNY',
+  defaultUserId: 'anonymous',
+};
+
+// 结构化输出配置
+export const STRUCTURED_OUTPUT_CONFIG = {
+  // 校验失败后的最大重试次数
+  maxRetries: readNumber('LLM_STRUCTURED_MAX_RETRIES', 2, { integer: true }),
+};
+
+// 知识库文档导入配置
+export const INGEST_CONFIG = {
+  // 分块大小（字符数）
+  chunkSize: readNumber('RAG_CHUNK_SIZE', 1000, { integer: true, min: 1 }),
+  // 相邻分块的重叠字符数
+  chunkOverlap: readNumber('RAG_CHUNK_OVERLAP', 200, { integer: true }),
+  // 单个文件大小上限（字节）
+  maxFileSize: readNumber('RAG_MAX_FILE_SIZE', 10 * 1024 * 1024, { integer: true, min: 1 }),
+  // 单次上传的文件数量上限
+  maxFiles: readNumber('RAG_MAX_FILES', 10, { integer: true, min: 1 }),
+};
+
+// RAG 检索配置
+export const RAG_CONFIG = {
+  // 检索的文档数量
+  k: readNumber('RAG_K', 3, { integer: true, min: 1 }),
+  // 归一化相似度阈值（0-1，越大越相似），低于该值的文档会被过滤
+  // 余弦相似度按 (1 + cos) / 2 换算，无关文档约为 0.5，默认 0.65 约相当于 cos ≥ 0.3
+  similarityThreshold: readNumber('RAG_SIMILARITY_THRESHOLD', 0.65, { max: 1 }),
+  // 检索模式：vector 仅向量检索，hybrid 关键词 + 向量混合检索
+  retrievalMode: (process.env.RAG_RETRIEVAL_MODE || 'vector') as RetrievalMode,
+  // 混合检索时向量检索的权重与候选数量
+  vectorWeight: readNumber('RAG_VECTOR_WEIGHT', 1),
+  vectorCandidates: readNumber('RAG_VECTOR_CANDIDATES', 20, { integer: true, min: 1 }),
+  // 混合检索时关键词检索的权重与候选数量
+  keywordWeight: readNumber('RAG_KEYWORD_WEIGHT', 1),
+  keywordCandidates: readNumber('RAG_KEYWORD_CANDIDATES', 20, { integer: true, min: 1 }),
+  // 倒数排名融合（RRF）的平滑常数
+  rrfK: readNumber('RAG_RRF_K', 60),
+  // 是否启用大模型重排序
+  rerank: process.env.RAG_RERANK === 'true',
+  // 重排序前召回的候选数量
+  rerankCandidates: readNumber('RAG_RERANK_CANDIDATES', 12, { integer: true, min: 1 }),
+  // 重排序使用的模型配置名称，默认使用默认模型
+  rerankProfile: process.env.RAG_RERANK_PROFILE || '',
+  // 是否结合对话历史改写检索查询
+  queryRewrite: process.env.RAG_QUERY_REWRITE === 'true',
+  // 额外生成的同义查询数量，0 表示不做多查询检索
+  multiQuery: readNumber('RAG_MULTI_QUERY', 0, { integer: true }),
+  // 改写时参考的历史消息条数
+  rewriteHistory: readNumber('RAG_REWRITE_HISTORY', 6, { integer: true }),
+  // 改写使用的模型配置名称，默认使用默认模型
+  rewriteProfile: process.env.RAG_REWRITE_PROFILE || '',
+};
+
+// 向量库配置
+export const VECTOR_STORE_CONFIG = {
+  // 向量库后端：mongodb（Atlas）、chroma 或 memory（进程内，仅用于本地调试）
+  backend: (process.env.VECTOR_STORE_BACKEND || 'mongodb') as VectorBackend,
+  // Atlas 向量索引中可用于预过滤的元数据字段，检索过滤只能使用这些字段
+  filterFields: (process.env.VECTOR_FILTER_FIELDS || 'category,source,type,uploadedAtMs')
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean),
+};
+
+// Embedding 缓存配置
+export const EMBEDDING_CACHE_CONFIG = {
+  // 是否启用 MongoDB Embedding 缓存（MongoDB 与 Chroma 后端的默认 Embeddings）
+  enabled: process.env.EMBEDDING_CACHE !== 'false',
+  // 缓存集合名称
+  collectionName: process.env.EMBEDDING_CACHE_COLLECTION || 'embedding_cache',
+};
+
+/**
+ * 读取团队令牌（JSON 对象，键为令牌，值为团队ID），知识库接口按请求头 X-Team-Token 识别调用方团队
+ * 格式错误时启动失败，避免令牌静默失效
+ */
+const loadTeamTokens = (): Map<string, string> => {
+  if (!process.env.KNOWLEDGE_BASE_TEAM_TOKENS) return new Map();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(process.env.KNOWLEDGE_BASE_TEAM_TOKENS);
+  } catch (error) {
+    throw new Error(`[Config] KNOWLEDGE_BASE_TEAM_TOKENS 不是合法的 JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isRecord(parsed)) {
+    throw new Error('[Config] KNOWLEDGE_BASE_TEAM_TOKENS 必须是对象，键为令牌，值为团队ID');
+  }
+  const entries = Object.entries(parsed);
+  const invalid = entries.find(([token, teamId]) => !token || typeof teamId !== 'string' || !teamId);
+  if (invalid) {
+    throw new Error(`[Config] KNOWLEDGE_BASE_TEAM_TOKENS 中的团队ID必须是非空字符串: ${invalid[0]}`);
+  }
+  return new Map(entries as [string, string][]);
+};
+
+// 知识库配置
+export const KNOWLEDGE_BASE_CONFIG = {
+  // 团队令牌到团队ID的映射，未配置时团队知识库接口不可用
+  teamTokens: loadTeamTokens(),
+  // 命令行评测未指定 --team 时使用的团队ID
+  defaultTeamId: process.env.KNOWLEDGE_BASE_DEFAULT_TEAM || 'default',
+  // 知识库向量集合名称前缀，集合名为前缀 + 知识库ID
+  collectionPrefix: process.env.KNOWLEDGE_BASE_COLLECTION_PREFIX || 'kb_',
+  // 默认 Embedding 模型与向量维度
+  embeddingModel: process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text:latest',
+  embeddingDimensions: readNumber('EMBEDDING_DIMENSIONS', 768, { integer: true, min: 1 }),
+  // 单次对话最多可选的知识库数量
+  maxPerChat: readNumber('KNOWLEDGE_BASE_MAX_PER_CHAT', 5, { integer: true, min: 1 }),
+};
+
+// 检索评测配置
+export const EVALUATION_CONFIG = {
+  // 接口单次评测最多的用例数量，接口同步返回结果，更大的评测集使用命令行
+  maxCases: readNumber('EVALUATION_MAX_CASES', 50, { integer: true, min: 1 }),
+  // 接口单次评测最多对比的配置数量
+  maxConfigs: readNumber('EVALUATION_MAX_CONFIGS', 3, { integer: true, min: 1 }),
+};
+
+// 管理接口配置
+export const ADMIN_CONFIG = {
+  // 管理接口令牌，请求需携带 X-Admin-Token 请求头；未配置时管理接口不可用
+  token: process.env.ADMIN_TOKEN || '',
+};
+
+// 少样本示例配置
+export const FEW_SHOT_CONFIG = {
+  // 示例向量集合名称
+  collectionName: process.env.FEW_SHOT_COLLECTION || 'few_shot_examples',
+  // 每次对话默认加入的示例数量，默认 0 不使用，避免每次对话都多一次 Embedding 与检索
+  k: readNumber('FEW_SHOT_K', 0, { integer: true }),
+  // 单次请求可指定的最大示例数量
+  maxK: readNumber('FEW_SHOT_MAX_K', 10, { integer: true }),
+  // 相似度阈值，低于此值的示例不加入提示词（0-1）
+  similarityThreshold: readNumber('FEW_SHOT_SIMILARITY_THRESHOLD', 0.7, { max: 1 }),
+};
+
+// 对话记忆配置
+export const HISTORY_MEMORY_CONFIG = {
+  // 是否启用滚动摘要，关闭时对话携带完整历史
+  enabled: process.env.HISTORY_SUMMARY !== 'false',
+  // 原样保留的最近对话轮数
+  recentTurns: readNumber('HISTORY_RECENT_TURNS', 6, { integer: true }),
+  // 未摘要历史的估算 token 数超过此值时更新摘要
+  tokenThreshold: readNumber('HISTORY_SUMMARY_TOKEN_THRESHOLD', 3000, { min: 1 }),
+  // 生成摘要使用的模型配置名称，留空使用默认模型
+  profile: process.env.HISTORY_SUMMARY_PROFILE || '',
+};
@@ -0,0 +1,104 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ConversationService } from '../services/conversation.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import { paginationWrapper } from '../middlewares/contentType.js';
+import type { MessageQueryOptions } from '../utils/mongodb/chatHistory.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// 解析正整数查询参数，非法值回退为默认值
+const parsePositiveInt = (value: unknown, defaultValue: number): number => {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+};
+
+// 获取会话列表（分页）
+export async function getConversations(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const page = parsePositiveInt(req.query.page, 1);
+    const pageSize = Math.min(parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const { items, total } = await ConversationService.findAll(page, pageSize);
+
+    res.json(paginationWrapper(items, page, pageSize, total));
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 获取单个会话的消息
+export async function getConversationById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Conversation ID is required', 400);
+    }
+    const options: MessageQueryOptions = {
+      reverse: String(req.query.reverse ?? '').toLowerCase() === 'true',
+    };
+    // 未传 limit 时返回全部消息，非法值返回 400
+    if (req.query.limit !== undefined) {
+      const limit = typeof req.query.limit === 'string' && /^\d+$/.test(req.query.limit) ? Number(req.query.limit) : 0;
+      if (limit < 1) {
+        throw createError('limit must be a positive integer', 400);
+      }
+      options.limit = limit;
+    }
+    const conversation = await ConversationService.findById(id, options);
+
+    if (!conversation) {
+      throw createError('Conversation not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 清空会话消息
+export async function clearConversation(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Conversation ID is required', 400);
+    }
+    const cleared = await ConversationService.clear(id);
+
+    if (!cleared) {
+      throw createError('Conversation not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Conversation cleared successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 删除会话
+export async function deleteConversation(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Conversation ID is required', 400);
+    }
+    const deleted = await ConversationService.delete(id);
+
+    if (!deleted) {
+      throw createError('Conversation not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Conversation deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
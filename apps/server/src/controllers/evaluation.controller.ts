@@ -0,0 +1,44 @@
+import type { Request, Response, NextFunction } from 'express';
+import { EvaluationService } from '../services/evaluation.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import { resolveTeamId } from '../utils/http/http.js';
+import { parseEvaluationDataset, resolveEvaluationConfigs } from '../utils/tools/evaluation.js';
+import { EVALUATION_CONFIG } from '../config/index.js';
+
+// 运行检索评测，对比多个检索配置
+export async function runEvaluation(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { dataset, configs: configsInput } = req.body ?? {};
+    const cases = parseEvaluationDataset(dataset);
+    if (typeof cases === 'string') {
+      throw createError(cases, 400);
+    }
+    if (cases.length > EVALUATION_CONFIG.maxCases) {
+      throw createError(`dataset must contain at most ${EVALUATION_CONFIG.maxCases} cases`, 400);
+    }
+    const configs = resolveEvaluationConfigs(configsInput);
+    if (typeof configs === 'string') {
+      throw createError(configs, 400);
+    }
+    if (configs.length > EVALUATION_CONFIG.maxConfigs) {
+      throw createError(`configs must contain at most ${EVALUATION_CONFIG.maxConfigs} items`, 400);
+    }
+
+    // 评测知识库时按 X-Team-Token 识别团队，只能评测本团队的知识库
+    const teamId = resolveTeamId(req);
+    if (!teamId && configs.some((config) => config.knowledgeBaseId)) {
+      throw createError('Evaluating a knowledge base requires a valid X-Team-Token', 401);
+    }
+    const reports = await EvaluationService.run(cases, configs, teamId);
+    if (typeof reports === 'string') {
+      throw createError(reports, 404);
+    }
+
+    res.json({
+      success: true,
+      data: reports,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
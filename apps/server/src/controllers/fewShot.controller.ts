@@ -0,0 +1,163 @@
+import type { Request, Response, NextFunction } from 'express';
+import { FewShotService } from '../services/fewShot.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import { FEW_SHOT_CONFIG } from '../config/index.js';
+import type { CreateFewShotExampleDTO, UpdateFewShotExampleDTO } from '../types/fewShot.types.js';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 校验可选的非空字符串参数
+const checkString = (value: unknown, name: string): void => {
+  if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+    throw createError(`${name} must be a non-empty string`, 400);
+  }
+};
+
+// 解析单个待创建的示例
+const parseExample = (value: unknown, name: string): CreateFewShotExampleDTO => {
+  if (!isPlainObject(value)) {
+    throw createError(`${name} must be an object`, 400);
+  }
+  const { input, output, category } = value;
+  if (typeof input !== 'string' || !input.trim() || typeof output !== 'string' || !output.trim()) {
+    throw createError(`${name}.input and ${name}.output are required`, 400);
+  }
+  checkString(category, `${name}.category`);
+  return { input: input.trim(), output, ...(typeof category === 'string' && { category: category.trim() }) };
+};
+
+// 获取示例列表，可按分类筛选
+export async function getExamples(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const category = typeof req.query.category === 'string' && req.query.category ? req.query.category : undefined;
+    const examples = await FewShotService.list(category);
+    res.json({
+      success: true,
+      data: examples,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 预览问题会选中的示例
+export async function searchExamples(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { query, category } = req.query;
+    if (typeof query !== 'string' || !query.trim()) {
+      throw createError('query is required', 400);
+    }
+    const k = req.query.k === undefined ? Math.max(FEW_SHOT_CONFIG.k, 1) : Number(req.query.k);
+    if (!Number.isInteger(k) || k < 1 || k > FEW_SHOT_CONFIG.maxK) {
+      throw createError(`k must be an integer between 1 and ${FEW_SHOT_CONFIG.maxK}`, 400);
+    }
+    const examples = await FewShotService.search(query, k, typeof category === 'string' && category ? category : undefined);
+    res.json({
+      success: true,
+      data: examples,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 根据 ID 获取示例
+export async function getExampleById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Example ID is required', 400);
+    }
+    const example = await FewShotService.get(id);
+
+    if (!example) {
+      throw createError('Example not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: example,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 创建示例：传入单个示例，或通过 examples 批量创建
+export async function createExamples(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const body: unknown = req.body ?? {};
+    const batch = isPlainObject(body) && body.examples !== undefined ? body.examples : undefined;
+    let items: CreateFewShotExampleDTO[];
+    if (batch !== undefined) {
+      if (!Array.isArray(batch) || !batch.length) {
+        throw createError('examples must be a non-empty array', 400);
+      }
+      items = batch.map((item, index) => parseExample(item, `examples[${index}]`));
+    } else {
+      items = [parseExample(body, 'body')];
+    }
+    const examples = await FewShotService.create(items);
+
+    res.status(201).json({
+      success: true,
+      data: batch !== undefined ? examples : examples[0],
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 更新示例
+export async function updateExample(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Example ID is required', 400);
+    }
+    const { input, output, category } = req.body ?? {};
+    checkString(input, 'input');
+    checkString(output, 'output');
+    if (category !== null) checkString(category, 'category');
+
+    const data: UpdateFewShotExampleDTO = {
+      ...(input !== undefined && { input: input.trim() }),
+      ...(output !== undefined && { output }),
+      ...(category !== undefined && { category: category === null ? null : category.trim() }),
+    };
+    const example = await FewShotService.update(id, data);
+
+    if (!example) {
+      throw createError('Example not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: example,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 删除示例
+export async function deleteExample(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Example ID is required', 400);
+    }
+    const deleted = await FewShotService.delete(id);
+
+    if (!deleted) {
+      throw createError('Example not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Example deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,151 @@
+import type { Request, Response, NextFunction } from 'express';
+import { KnowledgeService } from '../services/knowledge.service.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import { decodeFilename } from '../middlewares/upload.js';
+import { detectDocumentType } from '../utils/tools/document.js';
+import { getTeamId } from '../utils/http/http.js';
+import { INGEST_CONFIG } from '../config/index.js';
+import type { ChunkOptions, UploadedDocument } from '../types/knowledge.types.js';
+import type { VectorStoreTool } from '../types/vector.types.js';
+
+// 解析正整数表单参数
+const parseInteger = (value: unknown, name: string, min: number): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw createError(`${name} must be an integer >= ${min}`, 400);
+  }
+  return number;
+};
+
+// 解析附加元数据（JSON 对象字符串）
+const parseMetadata = (value: unknown): Record<string, unknown> => {
+  if (value === undefined || value === '') return {};
+  try {
+    const metadata: unknown = typeof value === 'string' ? JSON.parse(value) : value;
+    if (typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)) {
+      return metadata as Record<string, unknown>;
+    }
+  } catch {
+    // 统一在下方返回参数错误
+  }
+  throw createError('metadata must be a JSON object', 400);
+};
+
+/**
+ * @description: 解析操作的向量库：路由带知识库ID时使用该知识库（只能访问本团队的知识库）的向量库与分块参数，否则使用全局向量库
+ */
+const resolveTarget = async (req: Request): Promise<{ store?: VectorStoreTool; chunking: ChunkOptions }> => {
+  const { id } = req.params;
+  if (!id) {
+    return { chunking: { chunkSize: INGEST_CONFIG.chunkSize, chunkOverlap: INGEST_CONFIG.chunkOverlap } };
+  }
+  const knowledgeBase = await KnowledgeBaseService.get(getTeamId(req), id);
+  if (!knowledgeBase) {
+    throw createError('Knowledge base not found', 404);
+  }
+  return { store: KnowledgeBaseService.getVectorStore(knowledgeBase), chunking: knowledgeBase.chunking };
+};
+
+// 上传文档并导入知识库
+export async function uploadDocuments(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const files = Array.isArray(req.files) ? req.files : [];
+    if (!files.length) {
+      throw createError('At least one file is required (field: files)', 400);
+    }
+
+    const { store, chunking } = await resolveTarget(req);
+    const chunkSize = parseInteger(req.body?.chunkSize, 'chunkSize', 1) ?? chunking.chunkSize;
+    const chunkOverlap = parseInteger(req.body?.chunkOverlap, 'chunkOverlap', 0) ?? Math.min(chunking.chunkOverlap, chunkSize - 1);
+    if (chunkOverlap >= chunkSize) {
+      throw createError('chunkOverlap must be smaller than chunkSize', 400);
+    }
+    const options: ChunkOptions = { chunkSize, chunkOverlap };
+    const metadata = parseMetadata(req.body?.metadata);
+
+    const documents: UploadedDocument[] = files.map((file) => {
+      const filename = decodeFilename(file.originalname);
+      const type = detectDocumentType(filename, file.mimetype);
+      if (!type) {
+        throw createError(`Unsupported file type: ${filename}`, 400);
+      }
+      return { filename, type, content: file.buffer };
+    });
+
+    const result = await KnowledgeService.ingest(documents, options, metadata, store);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: `Ingested ${documents.length} files: ${result.addedChunks} chunks written, ${result.removedChunks} removed`,
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      next(createError(`Invalid JSON file: ${error.message}`, 400));
+      return;
+    }
+    next(error);
+  }
+}
+
+// 列出知识库中的来源
+export async function getSources(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { store } = await resolveTarget(req);
+    const sources = await KnowledgeService.listSources(store);
+    res.json({
+      success: true,
+      data: sources,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 删除某个来源的全部分块
+export async function deleteSource(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { source } = req.params;
+    if (!source) {
+      throw createError('Source is required', 400);
+    }
+    const { store } = await resolveTarget(req);
+    const deleted = await KnowledgeService.deleteSource(source, store);
+    if (!deleted) {
+      throw createError(`Source not found: ${source}`, 404);
+    }
+    res.json({
+      success: true,
+      data: { source, deleted },
+      message: `Deleted ${deleted} chunks`,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 删除整个向量集合，需显式确认
+export async function dropCollection(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (req.query.confirm !== 'true') {
+      throw createError('Dropping the collection deletes every chunk, pass confirm=true to proceed', 400);
+    }
+    await KnowledgeService.dropCollection();
+    res.json({
+      success: true,
+      message: 'Collection dropped',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Embedding 缓存命中统计
+export function getEmbeddingCacheStatus(_req: Request, res: Response): void {
+  res.json({
+    success: true,
+    data: KnowledgeService.getEmbeddingCacheStatus(),
+  });
+}
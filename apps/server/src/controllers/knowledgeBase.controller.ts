@@ -0,0 +1,215 @@
+import type { Request, Response, NextFunction } from 'express';
+import { MongoServerError } from 'mongodb';
+import { KnowledgeBaseService } from '../services/knowledgeBase.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import { getTeamId } from '../utils/http/http.js';
+import type { ChunkOptions } from '../types/knowledge.types.js';
+import type { CreateKnowledgeBaseDTO, KnowledgeBaseRetrieval, UpdateKnowledgeBaseDTO } from '../types/knowledgeBase.types.js';
+
+const RETRIEVAL_MODES = ['vector', 'hybrid'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 校验可选的整数参数
+const checkInteger = (value: unknown, name: string, min: number): void => {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) < min)) {
+    throw createError(`${name} must be an integer >= ${min}`, 400);
+  }
+};
+
+// 校验可选的非空字符串参数
+const checkString = (value: unknown, name: string): void => {
+  if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+    throw createError(`${name} must be a non-empty string`, 400);
+  }
+};
+
+// 解析分块参数
+const parseChunking = (value: unknown): Partial<ChunkOptions> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isPlainObject(value)) {
+    throw createError('chunking must be an object', 400);
+  }
+  const { chunkSize, chunkOverlap } = value;
+  checkInteger(chunkSize, 'chunking.chunkSize', 1);
+  checkInteger(chunkOverlap, 'chunking.chunkOverlap', 0);
+  return {
+    ...(chunkSize !== undefined && { chunkSize: chunkSize as number }),
+    ...(chunkOverlap !== undefined && { chunkOverlap: chunkOverlap as number }),
+  };
+};
+
+// 解析检索默认值
+const parseRetrieval = (value: unknown): Partial<KnowledgeBaseRetrieval> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isPlainObject(value)) {
+    throw createError('retrieval must be an object', 400);
+  }
+  const { k, similarityThreshold, retrievalMode, rerank } = value;
+  checkInteger(k, 'retrieval.k', 1);
+  if (similarityThreshold !== undefined && (typeof similarityThreshold !== 'number' || similarityThreshold < 0 || similarityThreshold > 1)) {
+    throw createError('retrieval.similarityThreshold must be a number between 0 and 1', 400);
+  }
+  if (retrievalMode !== undefined && !RETRIEVAL_MODES.includes(retrievalMode as string)) {
+    throw createError(`retrieval.retrievalMode must be one of: ${RETRIEVAL_MODES.join(', ')}`, 400);
+  }
+  if (rerank !== undefined && typeof rerank !== 'boolean') {
+    throw createError('retrieval.rerank must be a boolean', 400);
+  }
+  return {
+    ...(k !== undefined && { k: k as number }),
+    ...(similarityThreshold !== undefined && { similarityThreshold }),
+    ...(retrievalMode !== undefined && { retrievalMode: retrievalMode as KnowledgeBaseRetrieval['retrievalMode'] }),
+    ...(rerank !== undefined && { rerank }),
+  };
+};
+
+// 校验分块重叠小于分块大小
+const checkChunkOverlap = (chunking: Partial<ChunkOptions>): void => {
+  if (chunking.chunkSize !== undefined && chunking.chunkOverlap !== undefined && chunking.chunkOverlap >= chunking.chunkSize) {
+    throw createError('chunking.chunkOverlap must be smaller than chunking.chunkSize', 400);
+  }
+};
+
+// 名称重复时返回 409
+const toConflictError = (error: unknown): unknown =>
+  error instanceof MongoServerError && error.code === 11000 ? createError('Knowledge base name already exists', 409) : error;
+
+// 获取团队的知识库列表
+export async function getKnowledgeBases(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const knowledgeBases = await KnowledgeBaseService.list(getTeamId(req));
+    res.json({
+      success: true,
+      data: knowledgeBases,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 根据 ID 获取知识库
+export async function getKnowledgeBaseById(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Knowledge base ID is required', 400);
+    }
+    const knowledgeBase = await KnowledgeBaseService.get(getTeamId(req), id);
+
+    if (!knowledgeBase) {
+      throw createError('Knowledge base not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: knowledgeBase,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 创建知识库
+export async function createKnowledgeBase(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { name, description, embeddingModel, embeddingDimensions } = req.body ?? {};
+
+    if (typeof name !== 'string' || !name.trim()) {
+      throw createError('Name is required', 400);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw createError('description must be a string', 400);
+    }
+    checkString(embeddingModel, 'embeddingModel');
+    checkInteger(embeddingDimensions, 'embeddingDimensions', 1);
+    const chunking = parseChunking(req.body.chunking);
+    const retrieval = parseRetrieval(req.body.retrieval);
+    if (chunking) checkChunkOverlap(chunking);
+
+    const data: CreateKnowledgeBaseDTO = {
+      name: name.trim(),
+      ...(description !== undefined && { description }),
+      ...(embeddingModel !== undefined && { embeddingModel }),
+      ...(embeddingDimensions !== undefined && { embeddingDimensions }),
+      ...(chunking && { chunking }),
+      ...(retrieval && { retrieval }),
+    };
+    const knowledgeBase = await KnowledgeBaseService.create(getTeamId(req), data);
+
+    res.status(201).json({
+      success: true,
+      data: knowledgeBase,
+    });
+  } catch (error) {
+    next(toConflictError(error));
+  }
+}
+
+// 更新知识库
+export async function updateKnowledgeBase(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Knowledge base ID is required', 400);
+    }
+    const { name, description, embeddingModel, embeddingDimensions } = req.body ?? {};
+    if (embeddingModel !== undefined || embeddingDimensions !== undefined) {
+      throw createError('embeddingModel cannot be changed, create a new knowledge base and re-import the documents', 400);
+    }
+    checkString(name, 'name');
+    if (description !== undefined && typeof description !== 'string') {
+      throw createError('description must be a string', 400);
+    }
+    const chunking = parseChunking(req.body.chunking);
+    const retrieval = parseRetrieval(req.body.retrieval);
+
+    const teamId = getTeamId(req);
+    const current = await KnowledgeBaseService.get(teamId, id);
+    if (!current) {
+      throw createError('Knowledge base not found', 404);
+    }
+    checkChunkOverlap({ ...current.chunking, ...chunking });
+
+    const data: UpdateKnowledgeBaseDTO = {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(description !== undefined && { description }),
+      ...(chunking && { chunking }),
+      ...(retrieval && { retrieval }),
+    };
+    const knowledgeBase = await KnowledgeBaseService.update(teamId, id, data);
+
+    if (!knowledgeBase) {
+      throw createError('Knowledge base not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: knowledgeBase,
+    });
+  } catch (error) {
+    next(toConflictError(error));
+  }
+}
+
+// 删除知识库及其全部文档
+export async function deleteKnowledgeBase(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      throw createError('Knowledge base ID is required', 400);
+    }
+    const deleted = await KnowledgeBaseService.delete(getTeamId(req), id);
+
+    if (!deleted) {
+      throw createError('Knowledge base not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Knowledge base deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
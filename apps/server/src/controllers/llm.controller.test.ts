@@ -0,0 +1,59 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.DEEPSEEK_API_KEY ??= 'test';
+  process.env.VECTOR_STORE_BACKEND ??= 'memory';
+});
+
+vi.mock('../services/promptTemplate.service.js', () => ({
+  PromptTemplateService: { resolveForChat: vi.fn().mockRejectedValue(new Error('MongoDB 不可用')) },
+}));
+
+const { getLLMChart } = await import('./llm.controller.js');
+const { responseInterceptor } = await import('../middlewares/contentType.js');
+const { errorHandler } = await import('../middlewares/errorHandler.js');
+
+describe('getLLMChart', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json(), responseInterceptor);
+    app.post('/chart', getLLMChart);
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/chart`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const post = (body: Record<string, unknown>): ReturnType<typeof fetch> =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  it('流式请求加载提示词模板失败时以事件返回错误', async () => {
+    const response = await post({ text: '你好', stream: true, promptTemplate: 'support' });
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    const text = await response.text();
+    const event = JSON.parse(text.replace(/^data: /, '').trim()) as { code: number; success: boolean; message: string };
+    expect(event).toMatchObject({ code: 500, success: false, message: 'MongoDB 不可用' });
+  });
+
+  it('流式请求指定知识库但缺少团队令牌时以事件返回 401', async () => {
+    const response = await post({ text: '你好', stream: true, knowledgeBaseIds: ['kb1'] });
+    const text = await response.text();
+    expect(JSON.parse(text.replace(/^data: /, '').trim())).toMatchObject({ code: 401, success: false });
+  });
+
+  it('非流式请求加载提示词模板失败时交给错误处理中间件', async () => {
+    const response = await post({ text: '你好', promptTemplate: 'support' });
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ success: false, error: { message: 'MongoDB 不可用' } });
+  });
+});
@@ -1,26 +1,475 @@
-import type { Request, Response } from 'express';
-import llmInstance from '../utils/langchain/llm.js';
-import { streamHanlder } from '../utils/http/sseTools.js';
-import { badRequestResponse } from '../utils/http/http.js';
-const llm = llmInstance.getInstance();
-export const getLLMChart = async (req: Request, res: Response): Promise<void> => {
+import { randomUUID } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import llmInstance, { type ChatOptions, type LLM } from '../utils/langchain/llm.js';
+import { modelRegistry } from '../utils/langchain/providers.js';
+import { Agent } from '../utils/langchain/agent.js';
+import { toolRegistry } from '../utils/langchain/tools.js';
+import { fromJSONSchema, schemaRegistry } from '../utils/langchain/schemas.js';
+import { StructuredOutput } from '../utils/langchain/structured.js';
+import { chatHistoryInstance } from '../utils/mongodb/chatHistory.js';
+import { calculateCost, toTokenUsage } from '../utils/mongodb/usage.js';
+import { createClientAbortController, createConversation, sendSSEData, streamHanlder, structuredStreamHandler } from '../utils/http/sseTools.js';
+import { getSSEChannel, openSSEChannel, type SSEChannel } from '../utils/http/sseChannel.js';
+import { badRequestResponse, getUserId, resolveTeamId, sendErrorResponse, successResponse } from '../utils/http/http.js';
+import { resolveRetrievalFilter } from '../utils/tools/filter.js';
+import { isSSERequest } from '../middlewares/contentType.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import { UsageService } from '../services/usage.service.js';
+import { KnowledgeBaseService } from '../services/knowledgeBase.service.js';
+import { PromptTemplateService } from '../services/promptTemplate.service.js';
+import { FEW_SHOT_CONFIG, KNOWLEDGE_BASE_CONFIG } from '../config/index.js';
+import type { StreamResult } from '../types/sse.types.js';
+import type { OutputSchema } from '../types/structured.types.js';
+import type { ChatResponseData } from '../types/llm.types.js';
+import type { RetrievedSource, Retriever } from '../types/rag.types.js';
+import type { TokenUsage } from '../types/usage.types.js';
+const chatHistory = chatHistoryInstance.getInstance();
+
+// 结构名称会作为模型的函数名称，需满足函数命名规则
+const OUTPUT_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * 本轮对话的上下文：尚未并入摘要的历史消息、较早对话的摘要与检索中模型调用的用量归属
+ */
+type TurnContext = Required<Pick<ChatOptions, 'history' | 'usage'>> & Pick<ChatOptions, 'historySummary'>;
+
+/**
+ * 单轮流式对话的公共参数
+ */
+interface StreamTurnOptions {
+  text: string;
+  /** 已有会话ID，未传入时创建新会话 */
+  conversationId?: string;
+  llm: LLM;
+  /** 根据对话上下文向生成通道推送本轮输出 */
+  run: (channel: SSEChannel, context: TurnContext) => Promise<StreamResult>;
+}
+
+/**
+ * 非流式对话单轮结果
+ */
+interface TurnResult {
+  content: string;
+  reasoning: string;
+  usage: TokenUsage | null;
+  sources: RetrievedSource[];
+  /** RAG 实际用于检索的查询 */
+  queries: string[];
+  /** 结构化输出时校验通过的对象 */
+  data?: unknown;
+}
+
+/**
+ * 单轮非流式对话的公共参数
+ */
+interface RespondTurnOptions extends Omit<StreamTurnOptions, 'run'> {
+  /** 根据对话上下文生成本轮完整回答 */
+  run: (context: TurnContext, signal: AbortSignal) => Promise<TurnResult>;
+}
+
+/**
+ * 加载本轮对话的上下文：较早对话的摘要与尚未并入摘要的消息，新会话没有历史
+ */
+const loadTurnContext = async (req: Request, sessionId: string, conversationId?: string): Promise<TurnContext> => {
+  const usage = { userId: getUserId(req), conversationId: sessionId };
+  if (!conversationId) {
+    return { history: [], usage };
+  }
+  const { summary, messages } = await chatHistory.getContextMessages(conversationId);
+  return { history: messages, usage, ...(summary && { historySummary: summary }) };
+};
+
+/**
+ * 保存本轮的提问与回答，中止时标记为截断
+ */
+const saveTurn = async (
+  sessionId: string,
+  text: string,
+  { content, reasoning, truncated, sources }: Pick<StreamResult, 'content' | 'reasoning' | 'truncated' | 'sources'>
+) => {
+  await chatHistory.appendMessages(sessionId, [
+    new HumanMessage(text),
+    new AIMessage({
+      content,
+      additional_kwargs: {
+        ...(reasoning && { reasoning_content: reasoning }),
+        ...(truncated && { truncated: true }),
+        ...(sources.length && { sources }),
+      },
+    }),
+  ]);
+};
+
+/**
+ * 流式输出一轮对话：推送 SSE 事件、记录用量并持久化本轮消息
+ */
+const streamTurn = async (req: Request, res: Response, { text, conversationId, llm, run }: StreamTurnOptions): Promise<void> => {
+  let channel: SSEChannel | undefined;
+  // 未传入会话ID时创建新会话，该ID会随本轮消息一起持久化
+  const sessionId: string = conversationId || randomUUID();
   try {
-    const { text } = req.body;
-    if (!text) {
-      badRequestResponse(res);
-      return;
+    // 加载较早对话的摘要与最近的消息，实现多轮对话
+    const context = await loadTurnContext(req, sessionId, conversationId);
+    // 事件经生成通道推送，客户端断开超时未续传时取消模型生成
+    channel = openSSEChannel(res, createConversation(sessionId));
+    const result = await run(channel, context);
+    await UsageService.record({ ...context.usage, model: llm.model, profile: llm.profile.name }, result.usage);
+    if (result.truncated) {
+      console.log(`[LLM] 会话 ${sessionId} 的生成已取消，保存已生成的 ${result.content.length} 个字符`);
     }
-    // 使用流式响应
-    const stream = llm.chatStream(text);
-    await streamHanlder(res, stream);
+    // 流结束后保存本轮的提问与回答
+    await saveTurn(sessionId, text, result);
     res.end();
   } catch (error) {
-    // SSE 错误处理
+    // SSE 错误处理：通道已打开时经通道推送，续传的客户端也能收到错误
     const errorData = {
       status: 'error',
       message: error instanceof Error ? error.message : 'Unknown error',
     };
+    if (channel) {
+      channel.send(errorData);
+      return;
+    }
     res.write(`data: ${JSON.stringify(errorData)}\n\n`);
     res.end();
+  } finally {
+    channel?.close();
+  }
+};
+
+/**
+ * 非流式输出一轮对话：返回完整回答、记录用量并持久化本轮消息
+ */
+const respondTurn = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  { text, conversationId, llm, run }: RespondTurnOptions
+): Promise<void> => {
+  const sessionId: string = conversationId || randomUUID();
+  // 客户端断开时取消模型生成
+  const { signal } = createClientAbortController(req, res);
+  try {
+    const context = await loadTurnContext(req, sessionId, conversationId);
+    const { content, reasoning, usage, sources, queries, data } = await run(context, signal);
+    await UsageService.record({ ...context.usage, model: llm.model, profile: llm.profile.name }, usage);
+    await saveTurn(sessionId, text, { content, reasoning, truncated: false, sources });
+    const { conversationId: id, messageId } = createConversation(sessionId);
+    const responseData: ChatResponseData = {
+      conversationId: id,
+      messageId,
+      answer: content,
+      reasoning,
+      usage: usage && { ...usage, cost: calculateCost(llm.model, usage) },
+      sources,
+      queries,
+      ...(data !== undefined && { data }),
+    };
+    res.json(successResponse(responseData));
+  } catch (error) {
+    // 客户端已断开，无需响应
+    if (signal.aborted) {
+      console.log(`[LLM] 会话 ${sessionId} 的生成已取消`);
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * @description: 解析结构化输出参数，可选择已注册的 zod schema 或直接传入 JSON Schema
+ * @return {OutputSchema | string} 输出结构，参数不合法时返回错误信息
+ */
+const resolveOutputSchema = (responseFormat: unknown): OutputSchema | string => {
+  if (typeof responseFormat !== 'object' || responseFormat === null || Array.isArray(responseFormat)) {
+    return 'responseFormat 必须是对象';
+  }
+  const { schemaName, schema, name = 'structured_output', description } = responseFormat as Record<string, unknown>;
+  if (schemaName !== undefined) {
+    const registered = typeof schemaName === 'string' ? schemaRegistry.get(schemaName) : undefined;
+    return registered ?? `未知的输出结构：${String(schemaName)}`;
+  }
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return 'responseFormat 需要提供 schemaName 或 schema';
   }
+  if (typeof name !== 'string' || !OUTPUT_NAME_PATTERN.test(name)) {
+    return 'responseFormat.name 只能包含字母、数字、下划线和短横线，且不超过 64 个字符';
+  }
+  try {
+    return fromJSONSchema(name, schema as Record<string, unknown>, typeof description === 'string' ? description : undefined);
+  } catch (error) {
+    return `JSON Schema 不合法：${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+/**
+ * @description: 解析对话选择的知识库ID，可传单个ID或ID数组
+ * @return {string[] | string} 知识库ID列表，参数不合法时返回错误信息
+ */
+const resolveKnowledgeBaseIds = (input: unknown): string[] | string => {
+  if (input === undefined) return [];
+  const ids = typeof input === 'string' ? [input] : input;
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string' || !id)) {
+    return 'knowledgeBaseIds 必须是非空的知识库ID或ID数组';
+  }
+  if (ids.length > KNOWLEDGE_BASE_CONFIG.maxPerChat) {
+    return `knowledgeBaseIds 最多 ${KNOWLEDGE_BASE_CONFIG.maxPerChat} 个`;
+  }
+  return ids as string[];
+};
+
+/**
+ * @description: 解析本次对话加入提示词的少样本示例数量
+ * @return {number | undefined | string} 示例数量，未传入时返回 undefined，参数不合法时返回错误信息
+ */
+const resolveFewShotK = (input: unknown): number | undefined | string => {
+  if (input === undefined) return undefined;
+  if (!Number.isInteger(input) || (input as number) < 0 || (input as number) > FEW_SHOT_CONFIG.maxK) {
+    return `fewShotK 必须是 0-${FEW_SHOT_CONFIG.maxK} 之间的整数`;
+  }
+  return input as number;
+};
+
+/**
+ * @description: 解析对话引用的提示词模板：模板名称，或 { name, version } 固定版本
+ * @return {{ name: string; version?: number } | undefined | string} 模板引用，未传入时返回 undefined，参数不合法时返回错误信息
+ */
+const resolvePromptTemplateRef = (input: unknown): { name: string; version?: number } | undefined | string => {
+  if (input === undefined) return undefined;
+  if (typeof input === 'string' && input) return { name: input };
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'promptTemplate 必须是模板名称或 { name, version } 对象';
+  }
+  const { name, version } = input as Record<string, unknown>;
+  if (typeof name !== 'string' || !name) {
+    return 'promptTemplate.name 必须是非空字符串';
+  }
+  if (version !== undefined && (!Number.isInteger(version) || (version as number) < 1)) {
+    return 'promptTemplate.version 必须是正整数';
+  }
+  return { name, ...(version !== undefined && { version: version as number }) };
+};
+
+/**
+ * @description: 解析模板变量取值
+ * @return {Record<string, string> | string} 变量取值，参数不合法时返回错误信息
+ */
+const resolvePromptVariables = (input: unknown): Record<string, string> | string => {
+  if (input === undefined) return {};
+  if (typeof input !== 'object' || input === null || Array.isArray(input) || Object.values(input).some((value) => typeof value !== 'string')) {
+    return 'promptVariables 必须是值为字符串的对象';
+  }
+  return input as Record<string, string>;
+};
+
+/**
+ * 对话：请求 SSE 时流式输出，否则返回完整的 JSON 结果
+ */
+export const getLLMChart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { text, conversationId, model, responseFormat, filter } = req.body;
+  if (!text || (conversationId !== undefined && typeof conversationId !== 'string')) {
+    badRequestResponse(res);
+    return;
+  }
+  if (model !== undefined && !modelRegistry.has(model)) {
+    badRequestResponse(res, `未知的模型配置：${model}`);
+    return;
+  }
+  // 检索过滤条件：只在满足条件的知识库文档中检索
+  const retrievalFilter = filter === undefined ? {} : resolveRetrievalFilter(filter);
+  if (typeof retrievalFilter === 'string') {
+    badRequestResponse(res, retrievalFilter);
+    return;
+  }
+  // 知识库：只在本团队指定的知识库中检索，未指定时使用全局知识库
+  const knowledgeBaseIds = resolveKnowledgeBaseIds(req.body.knowledgeBaseIds);
+  if (typeof knowledgeBaseIds === 'string') {
+    badRequestResponse(res, knowledgeBaseIds);
+    return;
+  }
+  // 少样本示例数量：0 表示不使用示例，未传入时使用 FEW_SHOT_K
+  const fewShotK = resolveFewShotK(req.body.fewShotK);
+  if (typeof fewShotK === 'string') {
+    badRequestResponse(res, fewShotK);
+    return;
+  }
+  // 提示词模板：按名称引用，可固定版本，未固定时使用最新版本
+  const templateRef = resolvePromptTemplateRef(req.body.promptTemplate);
+  if (typeof templateRef === 'string') {
+    badRequestResponse(res, templateRef);
+    return;
+  }
+  const promptVariables = resolvePromptVariables(req.body.promptVariables);
+  if (typeof promptVariables === 'string') {
+    badRequestResponse(res, promptVariables);
+    return;
+  }
+  // 指定知识库时按 X-Team-Token 识别团队
+  const teamId = resolveTeamId(req);
+  if (knowledgeBaseIds.length && !teamId) {
+    sendErrorResponse(res, HTTP_STATUS.UNAUTHORIZED, 'knowledgeBaseIds requires a valid X-Team-Token');
+    return;
+  }
+  let retriever: Retriever | string | undefined;
+  let prompt: Pick<ChatOptions, 'systemPrompt' | 'ragPromptTemplate'> | string | undefined;
+  try {
+    retriever = teamId && knowledgeBaseIds.length ? await KnowledgeBaseService.resolveRetriever(teamId, knowledgeBaseIds) : undefined;
+    prompt = templateRef ? await PromptTemplateService.resolveForChat(templateRef.name, templateRef.version, promptVariables) : undefined;
+  } catch (error) {
+    if (!res.headersSent) {
+      next(error);
+      return;
+    }
+    // SSE 请求的响应头已提前发送，只能通过数据帧告知错误
+    console.error('[LLM] 加载知识库或提示词模板失败:', error);
+    sendErrorResponse(res, HTTP_STATUS.INTERNAL_ERROR, error instanceof Error ? error.message : 'Unknown error');
+    return;
+  }
+  if (typeof retriever === 'string') {
+    badRequestResponse(res, retriever);
+    return;
+  }
+  if (typeof prompt === 'string') {
+    badRequestResponse(res, prompt);
+    return;
+  }
+  const chatOptions: ChatOptions = {
+    filter: retrievalFilter,
+    ...(retriever && { retriever }),
+    ...(fewShotK !== undefined && { fewShotK }),
+    ...prompt,
+  };
+  // 按名称选择模型配置，未指定时使用默认配置
+  const llm = llmInstance.getInstance(model);
+  const stream = isSSERequest(req);
+  if (responseFormat !== undefined) {
+    // 结构化输出：推送部分 JSON，校验通过后推送最终结果
+    const schema = resolveOutputSchema(responseFormat);
+    if (typeof schema === 'string') {
+      badRequestResponse(res, schema);
+      return;
+    }
+    const structured = new StructuredOutput({ llm, schema });
+    if (!stream) {
+      await respondTurn(req, res, next, {
+        text,
+        conversationId,
+        llm,
+        run: async (context, signal) => {
+          const { data, usage, sources, queries } = await structured.invoke(text, { ...chatOptions, ...context, signal });
+          return { content: JSON.stringify(data), reasoning: '', usage, sources, queries, data };
+        },
+      });
+      return;
+    }
+    await streamTurn(req, res, {
+      text,
+      conversationId,
+      llm,
+      run: async (channel, context) => {
+        const prepared = await llm.getMessages(text, { ...chatOptions, ...context, signal: channel.signal });
+        return structuredStreamHandler(channel, structured.streamMessages(prepared, channel.signal), llm.model, prepared.sources, prepared.queries);
+      },
+    });
+    return;
+  }
+  if (!stream) {
+    await respondTurn(req, res, next, {
+      text,
+      conversationId,
+      llm,
+      run: async (context, signal) => {
+        const { message, sources, queries } = await llm.chat(text, { ...chatOptions, ...context, signal });
+        const reasoning = (message.additional_kwargs?.reasoning_content as string | undefined) ?? '';
+        return { content: message.text, reasoning, usage: toTokenUsage(message.usage_metadata), sources, queries };
+      },
+    });
+    return;
+  }
+  await streamTurn(req, res, {
+    text,
+    conversationId,
+    llm,
+    run: async (channel, context) => {
+      // 先检索来源，以便在 start 事件之前推送给客户端
+      const { messages, sources, queries } = await llm.getMessages(text, { ...chatOptions, ...context, signal: channel.signal });
+      return streamHanlder(channel, llm.streamMessages(messages, channel.signal), llm.model, sources, queries);
+    },
+  });
+};
+
+/**
+ * Agent 对话：模型可调用已注册的工具，工具调用与结果以 tool-call / tool-result 事件推送
+ */
+export const runAgent = async (req: Request, res: Response): Promise<void> => {
+  const { text, conversationId, model, tools } = req.body;
+  if (!text || (conversationId !== undefined && typeof conversationId !== 'string')) {
+    badRequestResponse(res);
+    return;
+  }
+  if (model !== undefined && !modelRegistry.has(model)) {
+    badRequestResponse(res, `未知的模型配置：${model}`);
+    return;
+  }
+  if (tools !== undefined && (!Array.isArray(tools) || tools.some((name) => typeof name !== 'string'))) {
+    badRequestResponse(res, 'tools 必须是工具名称数组');
+    return;
+  }
+  const unknownTools = ((tools ?? []) as string[]).filter((name) => !toolRegistry.has(name));
+  if (unknownTools.length) {
+    badRequestResponse(res, `未知的工具：${unknownTools.join(', ')}`);
+    return;
+  }
+  const llm = llmInstance.getInstance(model);
+  const agent = new Agent({ llm, tools: toolRegistry.resolve(tools) });
+  await streamTurn(req, res, {
+    text,
+    conversationId,
+    llm,
+    run: (channel, { history, historySummary }) =>
+      streamHanlder(channel, agent.run(text, { history, ...(historySummary && { historySummary }), signal: channel.signal }), llm.model),
+  });
+};
+
+/**
+ * 断线续传：携带 Last-Event-ID 重新连接，补发错过的事件后继续接收实时输出
+ */
+export const resumeLLMChart = (req: Request, res: Response): void => {
+  const { messageId } = req.params;
+  const channel = messageId ? getSSEChannel(messageId) : undefined;
+  if (!channel) {
+    sendSSEData(res, { status: 'error', message: '生成不存在或已过期' }, 'error');
+    res.end();
+    return;
+  }
+  const lastEventId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  channel.attach(res, lastEventId);
+};
+
+/**
+ * 获取可用的模型配置列表（不包含 API Key）
+ */
+export const getModelProfiles = (_req: Request, res: Response): void => {
+  const profiles = modelRegistry.list().map(({ apiKey: _apiKey, ...profile }) => ({
+    ...profile,
+    isDefault: profile.name === modelRegistry.defaultProfileName,
+  }));
+  res.json(successResponse(profiles));
+};
+
+/**
+ * 获取可供 Agent 调用的工具列表
+ */
+export const getAgentTools = (_req: Request, res: Response): void => {
+  const tools = toolRegistry.list().map(({ name, description }) => ({ name, description }));
+  res.json(successResponse(tools));
+};
+
+/**
+ * 获取已注册的结构化输出 Schema
+ */
+export const getOutputSchemas = (_req: Request, res: Response): void => {
+  const schemas = schemaRegistry.list().map(({ name, description, jsonSchema }) => ({ name, description, jsonSchema }));
+  res.json(successResponse(schemas));
 };
@@ -0,0 +1,161 @@
+import type { Request, Response } from 'express';
+import type { UsageMetadata } from '@langchain/core/messages';
+import llmInstance, { LLM, type LLMConfig } from '../utils/langchain/llm.js';
+import { modelRegistry } from '../utils/langchain/providers.js';
+import { setSSEHeaders } from '../middlewares/contentType.js';
+import { createClientAbortController } from '../utils/http/sseTools.js';
+import {
+  buildCompletion,
+  buildCompletionChunk,
+  createCompletionId,
+  getMessageText,
+  sendCompletionChunk,
+  toFinishReason,
+  toLangChainMessage,
+  toOpenAIUsage,
+} from '../utils/http/openaiTools.js';
+import { HTTP_STATUS } from '../constants/http.js';
+import { getUserId } from '../utils/http/http.js';
+import { UsageService } from '../services/usage.service.js';
+import type { OpenAIChatCompletionRequest, OpenAIChatMessage, OpenAIFinishReason, OpenAIRole } from '../types/openai.types.js';
+
+/**
+ * 返回 OpenAI 格式的错误
+ */
+const sendOpenAIError = (res: Response, status: number, message: string, type: string = 'invalid_request_error'): void => {
+  res.status(status).json({ error: { message, type, code: null } });
+};
+
+const OPENAI_ROLES: OpenAIRole[] = ['system', 'developer', 'user', 'assistant'];
+
+/**
+ * 校验消息结构：角色受支持，内容为字符串、null 或内容分片数组
+ */
+const isOpenAIMessage = (value: unknown): value is OpenAIChatMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { role, content } = value as Record<string, unknown>;
+  if (!OPENAI_ROLES.includes(role as OpenAIRole)) return false;
+  if (content === null || typeof content === 'string') return true;
+  return Array.isArray(content) && content.every((part) => typeof part === 'object' && part !== null && typeof part.type === 'string');
+};
+
+/**
+ * 根据请求参数获取 LLM 实例，未指定参数时复用单例
+ * model 为已注册的模型配置名称，或某个配置使用的模型名称；未知模型返回错误信息
+ */
+const resolveLLM = (body: OpenAIChatCompletionRequest): LLM | string => {
+  const config: LLMConfig = {};
+  if (body.model) {
+    const profile = modelRegistry.has(body.model) ? modelRegistry.get(body.model) : modelRegistry.list().find((item) => item.model === body.model);
+    if (!profile) {
+      return `The model \`${body.model}\` does not exist`;
+    }
+    config.profile = profile.name;
+  }
+  if (body.temperature !== undefined) config.temperature = body.temperature;
+  if (body.top_p !== undefined) config.topP = body.top_p;
+  if (body.max_tokens !== undefined) config.maxTokens = body.max_tokens;
+  const { profile, ...overrides } = config;
+  return Object.keys(overrides).length ? new LLM(config) : llmInstance.getInstance(profile);
+};
+
+/**
+ * OpenAI 兼容的对话补全接口
+ * 最后一条 user 消息作为本轮提问，其余消息作为历史
+ */
+export const createChatCompletion = async (req: Request, res: Response): Promise<void> => {
+  const body = req.body as OpenAIChatCompletionRequest;
+  const lastMessage = Array.isArray(body?.messages) ? body.messages.at(-1) : undefined;
+  if (!lastMessage || lastMessage.role !== 'user') {
+    sendOpenAIError(res, HTTP_STATUS.BAD_REQUEST, '`messages` must be a non-empty array ending with a user message');
+    return;
+  }
+  const invalidIndex = body.messages.findIndex((message) => !isOpenAIMessage(message));
+  if (invalidIndex !== -1) {
+    sendOpenAIError(
+      res,
+      HTTP_STATUS.BAD_REQUEST,
+      `\`messages[${invalidIndex}]\` must have a supported role and string or content part array content`
+    );
+    return;
+  }
+
+  const llm = resolveLLM(body);
+  if (typeof llm === 'string') {
+    sendOpenAIError(res, HTTP_STATUS.BAD_REQUEST, llm);
+    return;
+  }
+  const id = createCompletionId();
+  const model = body.model || llm.model;
+  const usageContext = { userId: getUserId(req), model: llm.model, profile: llm.profile.name };
+  // 客户端断开时取消模型生成
+  const { signal } = createClientAbortController(req, res);
+  // 流式响应最近一次携带的用量，中止时也记录已产生的用量
+  let usageMetadata: UsageMetadata | undefined;
+
+  try {
+    const chatOptions = {
+      history: body.messages.slice(0, -1).map(toLangChainMessage),
+      enableRAG: body.rag === true,
+      signal,
+      usage: { userId: usageContext.userId },
+    };
+    if (!body.stream) {
+      const { message: response } = await llm.chat(getMessageText(lastMessage), chatOptions);
+      await UsageService.record(usageContext, response.usage_metadata);
+      const reasoning = (response.additional_kwargs?.reasoning_content as string | undefined) ?? '';
+      const completion = buildCompletion(
+        id,
+        model,
+        response.text,
+        reasoning,
+        toFinishReason(response.response_metadata?.finish_reason),
+        toOpenAIUsage(response.usage_metadata)
+      );
+      res.json(completion);
+      return;
+    }
+
+    setSSEHeaders(res);
+    sendCompletionChunk(res, buildCompletionChunk(id, model, { role: 'assistant', content: '' }));
+
+    let finishReason: OpenAIFinishReason = 'stop';
+    const stream = llm.chatStream(getMessageText(lastMessage), chatOptions);
+    for await (const chunk of stream) {
+      const reasoningContent = chunk.additional_kwargs?.reasoning_content as string | undefined;
+      const content = chunk.text;
+      if (reasoningContent) {
+        sendCompletionChunk(res, buildCompletionChunk(id, model, { reasoning_content: reasoningContent }));
+      }
+      if (content) {
+        sendCompletionChunk(res, buildCompletionChunk(id, model, { content }));
+      }
+      if (chunk.response_metadata?.finish_reason) {
+        finishReason = toFinishReason(chunk.response_metadata.finish_reason);
+      }
+      usageMetadata = chunk.usage_metadata ?? usageMetadata;
+    }
+    await UsageService.record(usageContext, usageMetadata);
+
+    sendCompletionChunk(res, buildCompletionChunk(id, model, {}, finishReason));
+    if (body.stream_options?.include_usage) {
+      sendCompletionChunk(res, { ...buildCompletionChunk(id, model, {}), choices: [], usage: toOpenAIUsage(usageMetadata) ?? null });
+    }
+    sendCompletionChunk(res, '[DONE]');
+    res.end();
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`[LLM] 补全 ${id} 已取消`);
+      await UsageService.record(usageContext, usageMetadata);
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (!res.headersSent) {
+      sendOpenAIError(res, HTTP_STATUS.INTERNAL_ERROR, message, 'server_error');
+      return;
+    }
+    // 流已开始时只能通过数据帧告知错误
+    res.write(`data: ${JSON.stringify({ error: { message, type: 'server_error', code: null } })}\n\n`);
+    res.end();
+  }
+};
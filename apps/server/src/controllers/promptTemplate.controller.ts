@@ -0,0 +1,243 @@
+import type { Request, Response, NextFunction } from 'express';
+import { MongoServerError } from 'mongodb';
+import { PromptTemplateService } from '../services/promptTemplate.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import { validatePromptTemplate } from '../utils/tools/prompt.js';
+import type { PromptTemplateType } from '../types/promptTemplate.types.js';
+
+const TEMPLATE_TYPES: PromptTemplateType[] = ['system', 'rag'];
+
+const NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// 名称或版本号重复时返回 409
+const toConflictError = (error: unknown, message: string): unknown =>
+  error instanceof MongoServerError && error.code === 11000 ? createError(message, 409) : error;
+
+// 解析版本号参数
+const parseVersion = (value: unknown, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const version = typeof value === 'string' ? Number(value) : value;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw createError(`${name} must be a positive integer`, 400);
+  }
+  return version as number;
+};
+
+// 解析声明的变量
+const parseVariables = (value: unknown): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item)) {
+    throw createError('variables must be an array of non-empty strings', 400);
+  }
+  return value as string[];
+};
+
+// 获取模板名称参数
+const getName = (req: Request): string => {
+  const { name } = req.params;
+  if (!name) {
+    throw createError('Template name is required', 400);
+  }
+  return name;
+};
+
+// 获取全部模板（最新版本）
+export async function getTemplates(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const templates = await PromptTemplateService.list();
+    res.json({
+      success: true,
+      data: templates,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 获取模板，可通过 version 指定版本，默认最新版本
+export async function getTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const name = getName(req);
+    const version = parseVersion(req.query.version, 'version');
+    const template = await PromptTemplateService.get(name, version);
+
+    if (!template) {
+      throw createError('Prompt template not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 获取模板的全部版本
+export async function getTemplateVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const versions = await PromptTemplateService.listVersions(getName(req));
+
+    if (!versions.length) {
+      throw createError('Prompt template not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 创建模板
+export async function createTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { name, type, template, description } = req.body ?? {};
+    if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+      throw createError('name must be 1-64 letters, digits, underscores or hyphens', 400);
+    }
+    if (!TEMPLATE_TYPES.includes(type)) {
+      throw createError(`type must be one of: ${TEMPLATE_TYPES.join(', ')}`, 400);
+    }
+    if (typeof template !== 'string' || !template.trim()) {
+      throw createError('template is required', 400);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw createError('description must be a string', 400);
+    }
+    const variables = validatePromptTemplate(type, template, parseVariables(req.body.variables));
+    if (typeof variables === 'string') {
+      throw createError(variables, 400);
+    }
+
+    const created = await PromptTemplateService.create({ name, type, template, variables, ...(description !== undefined && { description }) });
+
+    res.status(201).json({
+      success: true,
+      data: created,
+    });
+  } catch (error) {
+    next(toConflictError(error, 'Prompt template name already exists'));
+  }
+}
+
+// 更新模板，生成新版本
+export async function updateTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const name = getName(req);
+    const { type, template, description } = req.body ?? {};
+    if (type !== undefined) {
+      throw createError('type cannot be changed, create a new template instead', 400);
+    }
+    if (template !== undefined && (typeof template !== 'string' || !template.trim())) {
+      throw createError('template must be a non-empty string', 400);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw createError('description must be a string', 400);
+    }
+    const declared = parseVariables(req.body.variables);
+
+    const latest = await PromptTemplateService.get(name);
+    if (!latest) {
+      throw createError('Prompt template not found', 404);
+    }
+    // 只修改描述时沿用最新版本的模板与变量
+    const variables = validatePromptTemplate(
+      latest.type,
+      template ?? latest.template,
+      declared ?? (template === undefined ? latest.variables : undefined)
+    );
+    if (typeof variables === 'string') {
+      throw createError(variables, 400);
+    }
+
+    const updated = await PromptTemplateService.update(name, {
+      variables,
+      ...(template !== undefined && { template }),
+      ...(description !== undefined && { description }),
+    });
+
+    if (!updated) {
+      throw createError('Prompt template not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    next(toConflictError(error, 'Prompt template was updated concurrently, please retry'));
+  }
+}
+
+// 回滚到指定版本，生成内容相同的新版本
+export async function rollbackTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const name = getName(req);
+    const version = parseVersion(req.body?.version, 'version');
+    if (version === undefined) {
+      throw createError('version is required', 400);
+    }
+    const template = await PromptTemplateService.rollback(name, version);
+
+    if (!template) {
+      throw createError('Prompt template version not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    next(toConflictError(error, 'Prompt template was updated concurrently, please retry'));
+  }
+}
+
+// 对比两个版本，默认对比最新版本与上一个版本
+export async function diffTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const name = getName(req);
+    let to = parseVersion(req.query.to, 'to');
+    if (to === undefined) {
+      const latest = await PromptTemplateService.get(name);
+      if (!latest) {
+        throw createError('Prompt template not found', 404);
+      }
+      to = latest.version;
+    }
+    const from = parseVersion(req.query.from, 'from') ?? Math.max(to - 1, 1);
+    const diff = await PromptTemplateService.diff(name, from, to);
+
+    if (!diff) {
+      throw createError('Prompt template version not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+// 删除模板的全部版本
+export async function deleteTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const deleted = await PromptTemplateService.delete(getName(req));
+
+    if (!deleted) {
+      throw createError('Prompt template not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Prompt template deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,47 @@
+import type { Request, Response, NextFunction } from 'express';
+import { UsageService } from '../services/usage.service.js';
+import { createError } from '../middlewares/errorHandler.js';
+import type { UsageGroupBy } from '../types/usage.types.js';
+import type { UsageQueryOptions } from '../utils/mongodb/usage.js';
+
+const GROUP_BY_VALUES: UsageGroupBy[] = ['day', 'model'];
+
+// 解析日期查询参数
+const parseDate = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw createError(`Invalid date: ${name}`, 400);
+  }
+  return date;
+};
+
+// 获取用量与费用统计
+export async function getUsageSummary(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const groupBy = String(req.query.groupBy ?? 'day,model')
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+    if (groupBy.some((item) => !GROUP_BY_VALUES.includes(item as UsageGroupBy))) {
+      throw createError(`groupBy must be one of: ${GROUP_BY_VALUES.join(', ')}`, 400);
+    }
+
+    const options: UsageQueryOptions = { groupBy: groupBy as UsageGroupBy[] };
+    const from = parseDate(req.query.from, 'from');
+    const to = parseDate(req.query.to, 'to');
+    if (from) options.from = from;
+    if (to) options.to = to;
+    if (typeof req.query.userId === 'string' && req.query.userId) options.userId = req.query.userId;
+    if (typeof req.query.conversationId === 'string' && req.query.conversationId) options.conversationId = req.query.conversationId;
+
+    const summary = await UsageService.summarize(options);
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * 检索评测命令行
+ * 用法：pnpm evaluate <dataset.jsonl> [--configs configs.json] [--team teamId] [--output report.json]
+ * - dataset.jsonl：每行一个用例 {"id","question","expectedIds","expectedSnippets","filter"}
+ * - configs.json：参与对比的检索配置数组，未指定时只评测默认配置
+ */
+import 'dotenv/config';
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import MongoDBUtil from './utils/mongodb/index.js';
+import { EvaluationService } from './services/evaluation.service.js';
+import { parseEvaluationDataset, resolveEvaluationConfigs } from './utils/tools/evaluation.js';
+import { KNOWLEDGE_BASE_CONFIG } from './config/index.js';
+import type { EvaluationReport } from './types/evaluation.types.js';
+
+const USAGE = 'Usage: pnpm evaluate <dataset.jsonl> [--configs configs.json] [--team teamId] [--output report.json]';
+
+// 打印各配置的指标对比与逐题结果
+function printReports(reports: EvaluationReport[]): void {
+  console.log('\n指标对比:');
+  console.table(
+    reports.map(({ config, metrics, durationMs }) => ({
+      name: config.name,
+      knowledgeBase: config.knowledgeBaseId ?? '(global)',
+      k: config.k,
+      threshold: config.similarityThreshold,
+      mode: config.retrievalMode,
+      rerank: config.rerank,
+      'recall@k': metrics.recallAtK,
+      mrr: metrics.mrr,
+      hitRate: metrics.hitRate,
+      errors: metrics.errors,
+      durationMs,
+    }))
+  );
+  for (const { config, results } of reports) {
+    console.log(`\n逐题结果（${config.name}）:`);
+    console.table(
+      results.map((result) => ({
+        id: result.id,
+        question: result.question.length > 30 ? `${result.question.slice(0, 30)}…` : result.question,
+        rank: result.firstRelevantRank ?? '-',
+        recall: result.recall,
+        missed: result.error ? `检索失败: ${result.error}` : result.missed.join(', '),
+      }))
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      configs: { type: 'string', short: 'c' },
+      team: { type: 'string', short: 't' },
+      output: { type: 'string', short: 'o' },
+    },
+  });
+  const [datasetPath] = positionals;
+  if (!datasetPath) {
+    throw new Error(USAGE);
+  }
+
+  const cases = parseEvaluationDataset(await readFile(datasetPath, 'utf8'));
+  if (typeof cases === 'string') {
+    throw new Error(`${datasetPath}: ${cases}`);
+  }
+  const configs = resolveEvaluationConfigs(values.configs ? JSON.parse(await readFile(values.configs, 'utf8')) : undefined);
+  if (typeof configs === 'string') {
+    throw new Error(`${values.configs}: ${configs}`);
+  }
+
+  console.log(`[Evaluation] ${cases.length} 个用例，${configs.length} 个配置`);
+  const reports = await EvaluationService.run(cases, configs, values.team || KNOWLEDGE_BASE_CONFIG.defaultTeamId);
+  if (typeof reports === 'string') {
+    throw new Error(reports);
+  }
+  printReports(reports);
+
+  if (values.output) {
+    await writeFile(values.output, JSON.stringify(reports, null, 2));
+    console.log(`\n评测报告已写入 ${values.output}`);
+  }
+}
+
+main()
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => MongoDBUtil.getInstance().disconnect());
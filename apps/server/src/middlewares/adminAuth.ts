@@ -0,0 +1,20 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler.js';
+import { matchToken } from '../utils/http/http.js';
+import { ADMIN_CONFIG } from '../config/index.js';
+
+/**
+ * 管理接口鉴权中间件，校验请求头 X-Admin-Token
+ * 未配置 ADMIN_TOKEN 时管理接口不可用，返回 403
+ */
+export function requireAdmin(req: Request, _res: Response, next: NextFunction): void {
+  if (!ADMIN_CONFIG.token) {
+    next(createError('Admin API is disabled, set ADMIN_TOKEN to enable it', 403));
+    return;
+  }
+  if (!matchToken(req.get('X-Admin-Token') ?? '', ADMIN_CONFIG.token)) {
+    next(createError('Invalid admin token', 401));
+    return;
+  }
+  next();
+}
@@ -17,6 +17,17 @@ export function isSSERequest(req: Request): boolean {
   return accept.includes('text/event-stream') || bodyIsStream || queryIsStream;
 }
 
+/**
+ * 设置 SSE 事件流响应头并立即发送
+ */
+export function setSSEHeaders(res: Response): void {
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Content-Type', 'text/event-stream;charset=UTF-8');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // 禁用 nginx 缓冲
+  res.flushHeaders(); // 立即发送头部
+}
+
 /**
  * 响应拦截中间件 - 统一处理响应格式和头部
  *
@@ -34,11 +45,7 @@ export function responseInterceptor(req: Request, res: Response, next: NextFunct
 
   if (isSSE) {
     // 对 SSE 请求不要覆盖 Content-Type / res.json，避免破坏事件流
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Content-Type', 'text/event-stream;charset=UTF-8');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // 禁用 nginx 缓冲
-    res.flushHeaders(); // 立即发送头部
+    setSSEHeaders(res);
     next();
     return;
   }
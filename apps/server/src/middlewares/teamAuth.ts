@@ -0,0 +1,20 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler.js';
+import { resolveTeamId } from '../utils/http/http.js';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/index.js';
+
+/**
+ * 团队鉴权中间件，按请求头 X-Team-Token 识别调用方团队，只能访问本团队的知识库
+ * 未配置 KNOWLEDGE_BASE_TEAM_TOKENS 时团队知识库接口不可用，返回 403
+ */
+export function requireTeam(req: Request, _res: Response, next: NextFunction): void {
+  if (!KNOWLEDGE_BASE_CONFIG.teamTokens.size) {
+    next(createError('Team API is disabled, set KNOWLEDGE_BASE_TEAM_TOKENS to enable it', 403));
+    return;
+  }
+  if (!resolveTeamId(req)) {
+    next(createError('Invalid team token', 401));
+    return;
+  }
+  next();
+}
@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { createError } from './errorHandler.js';
+import { detectDocumentType } from '../utils/tools/document.js';
+import { INGEST_CONFIG } from '../config/index.js';
+
+/**
+ * 还原文件名编码：multer 按 latin1 解析文件名，中文文件名需转回 UTF-8
+ */
+export function decodeFilename(filename: string): string {
+  return Buffer.from(filename, 'latin1').toString('utf8');
+}
+
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: INGEST_CONFIG.maxFileSize,
+    files: INGEST_CONFIG.maxFiles,
+  },
+  fileFilter: (_req, file, callback) => {
+    const filename = decodeFilename(file.originalname);
+    if (!detectDocumentType(filename, file.mimetype)) {
+      callback(createError(`Unsupported file type: ${filename}`, 400));
+      return;
+    }
+    callback(null, true);
+  },
+}).array('files', INGEST_CONFIG.maxFiles);
+
+/**
+ * 知识库文档上传中间件（multipart/form-data，字段名 files）
+ * 仅接收纯文本、Markdown、HTML 与 JSON 文件，上传错误统一返回 400
+ */
+export function uploadDocuments(req: Request, res: Response, next: NextFunction): void {
+  documentUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      next(createError(error.message, 400));
+      return;
+    }
+    next(error);
+  });
+}
@@ -17,8 +17,7 @@ async function bootstrap() {
   console.log(await historyTool.getMessagesAsBuffer(sessionId, 'User', '助手'));
 
   const vectorTool = new MongodbVectorTool({});
-  await vectorTool.initialize();
-  await MongodbVectorTool.initSearchIndex(vectorTool.getCollection());
+  await vectorTool.ensureIndexes();
 
   // await vectorTool.addTexts(['LangChain 是一个用于构建具备情境感知功能的应用程序的框架。'], [{ tag: 'intro' }]);
   console.log(await vectorTool.similaritySearchWithScore('LangChain是什么？', 1));
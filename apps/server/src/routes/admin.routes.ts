@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as evaluationController from '../controllers/evaluation.controller.js';
+import { requireAdmin } from '../middlewares/adminAuth.js';
+
+const router: RouterType = Router();
+
+router.use(requireAdmin);
+
+// 运行检索评测
+router.post('/evaluations', evaluationController.runEvaluation);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as conversationController from '../controllers/conversation.controller.js';
+
+const router: RouterType = Router();
+
+// 获取会话列表
+router.get('/', conversationController.getConversations);
+
+// 获取单个会话的消息
+router.get('/:id', conversationController.getConversationById);
+
+// 清空会话消息
+router.delete('/:id/messages', conversationController.clearConversation);
+
+// 删除会话
+router.delete('/:id', conversationController.deleteConversation);
+
+export default router;
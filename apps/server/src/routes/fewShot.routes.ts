@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as fewShotController from '../controllers/fewShot.controller.js';
+import { requireAdmin } from '../middlewares/adminAuth.js';
+
+const router: RouterType = Router();
+
+// 获取示例列表
+router.get('/', fewShotController.getExamples);
+
+// 预览问题会选中的示例
+router.get('/search', fewShotController.searchExamples);
+
+// 获取单个示例
+router.get('/:id', fewShotController.getExampleById);
+
+// 创建示例（支持批量，管理接口）
+router.post('/', requireAdmin, fewShotController.createExamples);
+
+// 更新示例（管理接口）
+router.put('/:id', requireAdmin, fewShotController.updateExample);
+
+// 删除示例（管理接口）
+router.delete('/:id', requireAdmin, fewShotController.deleteExample);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as knowledgeController from '../controllers/knowledge.controller.js';
+import { uploadDocuments } from '../middlewares/upload.js';
+import { requireAdmin } from '../middlewares/adminAuth.js';
+
+const router: RouterType = Router();
+
+// 全局知识库供所有对话检索，不区分团队，只允许管理员维护
+router.use(requireAdmin);
+
+// 上传文档并导入知识库
+router.post('/documents', uploadDocuments, knowledgeController.uploadDocuments);
+
+// 列出来源
+router.get('/sources', knowledgeController.getSources);
+
+// 删除某个来源的全部分块
+router.delete('/sources/:source', knowledgeController.deleteSource);
+
+// 删除整个向量集合
+router.delete('/collection', knowledgeController.dropCollection);
+
+// Embedding 缓存命中统计
+router.get('/embedding-cache', knowledgeController.getEmbeddingCacheStatus);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as knowledgeBaseController from '../controllers/knowledgeBase.controller.js';
+import * as knowledgeController from '../controllers/knowledge.controller.js';
+import { uploadDocuments } from '../middlewares/upload.js';
+import { requireTeam } from '../middlewares/teamAuth.js';
+
+const router: RouterType = Router();
+
+// 团队由 X-Team-Token 识别，只能访问本团队的知识库
+router.use(requireTeam);
+
+// 获取团队的知识库列表
+router.get('/', knowledgeBaseController.getKnowledgeBases);
+
+// 获取单个知识库
+router.get('/:id', knowledgeBaseController.getKnowledgeBaseById);
+
+// 创建知识库
+router.post('/', knowledgeBaseController.createKnowledgeBase);
+
+// 更新知识库
+router.put('/:id', knowledgeBaseController.updateKnowledgeBase);
+
+// 删除知识库及其全部文档
+router.delete('/:id', knowledgeBaseController.deleteKnowledgeBase);
+
+// 上传文档并导入指定知识库
+router.post('/:id/documents', uploadDocuments, knowledgeController.uploadDocuments);
+
+// 列出知识库中的来源
+router.get('/:id/sources', knowledgeController.getSources);
+
+// 删除知识库中某个来源的全部分块
+router.delete('/:id/sources/:source', knowledgeController.deleteSource);
+
+export default router;
@@ -5,5 +5,10 @@ import * as llmController from '../controllers/llm.controller.js';
 const router: RouterType = Router();
 
 router.post('/chart', llmController.getLLMChart);
+router.get('/chart/:messageId/resume', llmController.resumeLLMChart);
+router.get('/models', llmController.getModelProfiles);
+router.post('/agent', llmController.runAgent);
+router.get('/tools', llmController.getAgentTools);
+router.get('/schemas', llmController.getOutputSchemas);
 
 export default router;
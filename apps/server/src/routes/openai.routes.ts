@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as openaiController from '../controllers/openai.controller.js';
+
+const router: RouterType = Router();
+
+// OpenAI 兼容的对话补全
+router.post('/chat/completions', openaiController.createChatCompletion);
+
+export default router;
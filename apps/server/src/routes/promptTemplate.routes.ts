@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as promptTemplateController from '../controllers/promptTemplate.controller.js';
+import { requireAdmin } from '../middlewares/adminAuth.js';
+
+const router: RouterType = Router();
+
+// 获取全部模板（最新版本）
+router.get('/', promptTemplateController.getTemplates);
+
+// 创建模板（管理接口）
+router.post('/', requireAdmin, promptTemplateController.createTemplate);
+
+// 获取模板（?version= 指定版本）
+router.get('/:name', promptTemplateController.getTemplate);
+
+// 获取模板的全部版本
+router.get('/:name/versions', promptTemplateController.getTemplateVersions);
+
+// 对比两个版本（?from=&to=）
+router.get('/:name/diff', promptTemplateController.diffTemplate);
+
+// 更新模板，生成新版本（管理接口）
+router.put('/:name', requireAdmin, promptTemplateController.updateTemplate);
+
+// 回滚到指定版本（管理接口）
+router.post('/:name/rollback', requireAdmin, promptTemplateController.rollbackTemplate);
+
+// 删除模板的全部版本（管理接口）
+router.delete('/:name', requireAdmin, promptTemplateController.deleteTemplate);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import type { Router as RouterType } from 'express';
+import * as usageController from '../controllers/usage.controller.js';
+import { requireAdmin } from '../middlewares/adminAuth.js';
+
+const router: RouterType = Router();
+
+// 获取用量与费用统计（可查询任意用户，管理接口）
+router.get('/', requireAdmin, usageController.getUsageSummary);
+
+export default router;
@@ -0,0 +1,83 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import { chatHistoryInstance, type ChatSessionSummary, type MessageQueryOptions } from '../utils/mongodb/chatHistory.js';
+import type { ConversationDetail, ConversationSummary, MessageRole, SerializedMessage } from '../types/conversation.types.js';
+import type { RetrievedSource } from '../types/rag.types.js';
+
+const chatHistory = chatHistoryInstance.getInstance();
+
+const ROLE_MAP: Record<string, MessageRole> = {
+  human: 'user',
+  ai: 'assistant',
+  system: 'system',
+  tool: 'tool',
+};
+
+const toISOString = (value: unknown): string | null => {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : null;
+};
+
+export class ConversationService {
+  // 将 LangChain 消息转换为固定结构的 JSON
+  static serializeMessage(message: BaseMessage): SerializedMessage {
+    const { reasoning_content, truncated, sources, createdAt } = message.additional_kwargs ?? {};
+    return {
+      role: ROLE_MAP[message.getType()] ?? 'user',
+      content: typeof message.content === 'string' ? message.content : message.text,
+      reasoning: typeof reasoning_content === 'string' && reasoning_content ? reasoning_content : null,
+      truncated: truncated === true,
+      sources: Array.isArray(sources) ? (sources as RetrievedSource[]) : [],
+      createdAt: toISOString(createdAt),
+    };
+  }
+
+  // 转换会话摘要
+  static serializeSummary(summary: ChatSessionSummary): ConversationSummary {
+    return {
+      conversationId: summary.sessionId,
+      messageCount: summary.messageCount,
+      createdAt: toISOString(summary.createdAt),
+      updatedAt: toISOString(summary.updatedAt),
+    };
+  }
+
+  // 分页获取会话列表
+  static async findAll(page: number, pageSize: number): Promise<{ items: ConversationSummary[]; total: number }> {
+    const [sessions, total] = await Promise.all([
+      chatHistory.listSessions({ limit: pageSize, skip: (page - 1) * pageSize }),
+      chatHistory.countSessions(),
+    ]);
+    return { items: sessions.map(ConversationService.serializeSummary), total };
+  }
+
+  // 根据 ID 获取会话及消息
+  static async findById(conversationId: string, options: MessageQueryOptions = {}): Promise<ConversationDetail | null> {
+    const summary = await chatHistory.getSession(conversationId);
+    if (!summary) return null;
+
+    const [messages, memory] = await Promise.all([chatHistory.getMessages(conversationId, options), chatHistory.getSummary(conversationId)]);
+    return {
+      ...ConversationService.serializeSummary(summary),
+      messages: messages.map(ConversationService.serializeMessage),
+      memory: memory && { content: memory.content, summarizedCount: memory.summarizedCount, updatedAt: toISOString(memory.updatedAt) },
+    };
+  }
+
+  // 清空会话消息
+  static async clear(conversationId: string): Promise<boolean> {
+    const summary = await chatHistory.getSession(conversationId);
+    if (!summary) return false;
+
+    await chatHistory.clear(conversationId);
+    return true;
+  }
+
+  // 删除会话
+  static async delete(conversationId: string): Promise<boolean> {
+    const summary = await chatHistory.getSession(conversationId);
+    if (!summary) return false;
+
+    await chatHistory.deleteSession(conversationId);
+    return true;
+  }
+}
@@ -0,0 +1,67 @@
+import { KnowledgeBaseService } from './knowledgeBase.service.js';
+import { RAG } from '../utils/langchain/rag.js';
+import { createDefaultReranker } from '../utils/langchain/reranker.js';
+import { judgeCase, summarizeEvaluation } from '../utils/tools/evaluation.js';
+import { RAG_CONFIG } from '../config/index.js';
+import type { EvaluationCase, EvaluationCaseResult, EvaluationConfig, EvaluationReport } from '../types/evaluation.types.js';
+
+export class EvaluationService {
+  /**
+   * @description: 用同一评测集依次评测各个检索配置，便于对比
+   * @param {EvaluationCase[]} cases 评测用例
+   * @param {EvaluationConfig[]} configs 检索配置
+   * @param {string} teamId 团队ID，只能评测本团队的知识库；未认证团队时只能评测全局知识库
+   * @return {Promise<EvaluationReport[] | string>} 各配置的评测报告，知识库不存在时返回错误信息
+   */
+  static async run(cases: EvaluationCase[], configs: EvaluationConfig[], teamId?: string): Promise<EvaluationReport[] | string> {
+    // 先解析全部配置，避免评测到一半才发现知识库不存在
+    const prepared: { config: EvaluationReport['config']; rag: RAG }[] = [];
+    for (const config of configs) {
+      const knowledgeBase = config.knowledgeBaseId && teamId ? await KnowledgeBaseService.get(teamId, config.knowledgeBaseId) : null;
+      if (config.knowledgeBaseId && !knowledgeBase) {
+        return `知识库不存在: ${config.knowledgeBaseId}`;
+      }
+      const defaults = knowledgeBase?.retrieval ?? RAG_CONFIG;
+      const effective: EvaluationReport['config'] = {
+        name: config.name,
+        knowledgeBaseId: knowledgeBase?.id ?? null,
+        k: config.k ?? defaults.k,
+        similarityThreshold: config.similarityThreshold ?? defaults.similarityThreshold,
+        retrievalMode: config.retrievalMode ?? defaults.retrievalMode,
+        rerank: config.rerank ?? defaults.rerank,
+      };
+      const rag = new RAG({
+        name: config.name,
+        ...(knowledgeBase && { vectorStore: KnowledgeBaseService.getVectorStore(knowledgeBase) }),
+        ragK: effective.k,
+        similarityThreshold: effective.similarityThreshold,
+        retrievalMode: effective.retrievalMode,
+        reranker: createDefaultReranker(effective.rerank) ?? null,
+      });
+      prepared.push({ config: effective, rag });
+    }
+
+    const reports: EvaluationReport[] = [];
+    for (const { config, rag } of prepared) {
+      const startTime = Date.now();
+      const results: EvaluationCaseResult[] = [];
+      // 逐个用例串行检索，避免并发请求压垮 Embedding 与重排序模型
+      for (const testCase of cases) {
+        try {
+          const sources = await rag.search(testCase.question, { k: config.k, ...(testCase.filter && { filter: testCase.filter }) });
+          results.push(judgeCase(testCase, sources));
+        } catch (error) {
+          console.warn(`[Evaluation] 配置 ${config.name} 用例 ${testCase.id} 检索失败:`, error);
+          results.push({ ...judgeCase(testCase, []), error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      const metrics = summarizeEvaluation(results);
+      const durationMs = Date.now() - startTime;
+      console.log(
+        `[Evaluation] 配置 ${config.name}: ${metrics.cases} 个用例，recall@${config.k}=${metrics.recallAtK}，MRR=${metrics.mrr}，命中率=${metrics.hitRate}，耗时 ${durationMs}ms`
+      );
+      reports.push({ config, metrics, results, durationMs });
+    }
+    return reports;
+  }
+}
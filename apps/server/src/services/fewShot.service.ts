@@ -0,0 +1,77 @@
+import { randomUUID } from 'node:crypto';
+import { fewShotInstance, toFewShotDocument, toFewShotExample } from '../utils/langchain/fewShot.js';
+import type { CreateFewShotExampleDTO, FewShotExample, SelectedFewShotExample, UpdateFewShotExampleDTO } from '../types/fewShot.types.js';
+
+const fewShotSelector = fewShotInstance.getInstance();
+
+export class FewShotService {
+  // 列出示例，可按分类筛选，按创建时间排序
+  static async list(category?: string): Promise<FewShotExample[]> {
+    const documents = await fewShotSelector.vectorStore.getDocuments(category ? { filter: { category } } : {});
+    return documents.map(toFewShotExample).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // 获取单个示例
+  static async get(id: string): Promise<FewShotExample | null> {
+    const [document] = await fewShotSelector.vectorStore.getDocuments({ ids: [id] });
+    return document ? toFewShotExample(document) : null;
+  }
+
+  // 批量创建示例
+  static async create(items: CreateFewShotExampleDTO[]): Promise<FewShotExample[]> {
+    await FewShotService.prepareCollection();
+    const now = new Date().toISOString();
+    const examples = items.map(
+      (item): FewShotExample => ({
+        id: randomUUID(),
+        input: item.input,
+        output: item.output,
+        category: item.category ?? null,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    await fewShotSelector.vectorStore.addDocuments(examples.map(toFewShotDocument));
+    console.log(`[FewShot] 新增 ${examples.length} 个示例`);
+    return examples;
+  }
+
+  // 更新示例，按相同ID覆盖写入，修改 input 时重新计算向量
+  static async update(id: string, data: UpdateFewShotExampleDTO): Promise<FewShotExample | null> {
+    const current = await FewShotService.get(id);
+    if (!current) return null;
+    const example: FewShotExample = {
+      ...current,
+      ...(data.input !== undefined && { input: data.input }),
+      ...(data.output !== undefined && { output: data.output }),
+      ...(data.category !== undefined && { category: data.category }),
+      updatedAt: new Date().toISOString(),
+    };
+    // 清除分类时先删除旧文档，避免后端合并元数据时保留旧分类
+    if (current.category !== null && example.category === null) {
+      await fewShotSelector.vectorStore.delete({ ids: [id] });
+    }
+    await fewShotSelector.vectorStore.addDocuments([toFewShotDocument(example)]);
+    return example;
+  }
+
+  // 删除示例
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await fewShotSelector.vectorStore.delete({ ids: [id] });
+    return deleted > 0;
+  }
+
+  // 预览问题会选中的示例
+  static async search(query: string, k: number, category?: string): Promise<SelectedFewShotExample[]> {
+    return fewShotSelector.select(query, k, category ? { category } : undefined);
+  }
+
+  // 为示例集合创建索引（MongoDB 后端，幂等），失败时只记录警告，下次写入时再次尝试
+  private static async prepareCollection(): Promise<void> {
+    try {
+      await fewShotSelector.vectorStore.ensureIndexes?.();
+    } catch (error) {
+      console.warn('[FewShot] 创建示例集合索引失败:', error);
+    }
+  }
+}
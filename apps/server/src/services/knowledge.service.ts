@@ -0,0 +1,109 @@
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { vectorStoreInstance } from '../utils/langchain/vectorStore.js';
+import { extractText } from '../utils/tools/document.js';
+import { UPLOADED_AT_FIELD } from '../utils/tools/filter.js';
+import { createChunkId } from '../utils/tools/source.js';
+import { MongoEmbeddingCache } from '../utils/mongodb/embeddingCache.js';
+import { EMBEDDING_CACHE_CONFIG, INGEST_CONFIG } from '../config/index.js';
+import type { ChunkOptions, DocumentType, IngestedDocument, IngestResult, IngestStatus, UploadedDocument } from '../types/knowledge.types.js';
+import type { EmbeddingCacheStatus, SourceSummary, VectorStoreTool } from '../types/vector.types.js';
+
+// 按文档类型选择分块器，Markdown 优先在标题、段落处切分
+const createSplitter = (type: DocumentType, options: ChunkOptions): RecursiveCharacterTextSplitter => {
+  if (type === 'markdown') {
+    return RecursiveCharacterTextSplitter.fromLanguage('markdown', options);
+  }
+  return new RecursiveCharacterTextSplitter(options);
+};
+
+export class KnowledgeService {
+  // 导入文档：提取文本、分块并写入向量库，默认写入全局向量库
+  static async ingest(
+    files: UploadedDocument[],
+    options: Partial<ChunkOptions> = {},
+    metadata: Record<string, unknown> = {},
+    store: VectorStoreTool = vectorStoreInstance.getInstance()
+  ): Promise<IngestResult> {
+    const chunkOptions: ChunkOptions = {
+      chunkSize: options.chunkSize ?? INGEST_CONFIG.chunkSize,
+      chunkOverlap: options.chunkOverlap ?? INGEST_CONFIG.chunkOverlap,
+    };
+    const now = new Date();
+    // uploadedAt 便于阅读，毫秒时间戳用于日期范围过滤（Chroma 只支持数值范围比较）
+    const uploadedAt = now.toISOString();
+    const timestamp = { [UPLOADED_AT_FIELD]: now.getTime() };
+    const documents: IngestedDocument[] = [];
+
+    for (const file of files) {
+      const text = extractText(file.content, file.type);
+      const splitter = createSplitter(file.type, chunkOptions);
+      const chunks = text
+        ? await splitter.createDocuments([text], [{ ...metadata, source: file.filename, type: file.type, uploadedAt, ...timestamp }])
+        : [];
+      chunks.forEach((chunk, index) => {
+        chunk.id = createChunkId(file.filename, file.type, index, chunk.pageContent, metadata);
+        chunk.metadata.chunkIndex = index;
+        chunk.metadata.chunkCount = chunks.length;
+      });
+
+      // 只写入新增的分块，再删除已不存在的旧分块，内容未变化时不产生任何写入
+      const existingIds = new Set(await store.listIds({ source: file.filename }));
+      const chunkIds = new Set(chunks.map((chunk) => String(chunk.id)));
+      const added = chunks.filter((chunk) => !existingIds.has(String(chunk.id)));
+      const staleIds = [...existingIds].filter((id) => !chunkIds.has(id));
+      await store.addDocuments(added);
+      const removed = staleIds.length ? await store.delete({ ids: staleIds }) : 0;
+
+      const status: IngestStatus = !added.length && !removed ? 'unchanged' : existingIds.size ? 'updated' : 'created';
+      documents.push({
+        source: file.filename,
+        type: file.type,
+        characters: text.length,
+        chunks: chunks.length,
+        status,
+        added: added.length,
+        removed,
+      });
+    }
+
+    const sum = (key: 'chunks' | 'added' | 'removed') => documents.reduce((total, document) => total + document[key], 0);
+    const result: IngestResult = {
+      documents,
+      totalChunks: sum('chunks'),
+      addedChunks: sum('added'),
+      removedChunks: sum('removed'),
+      ...chunkOptions,
+    };
+    console.log(
+      `[Knowledge] 导入 ${files.length} 个文件，共 ${result.totalChunks} 个分块，写入 ${result.addedChunks} 个，删除 ${result.removedChunks} 个`
+    );
+    return result;
+  }
+
+  // 列出知识库中的来源及其分块数量
+  static async listSources(store: VectorStoreTool = vectorStoreInstance.getInstance()): Promise<SourceSummary[]> {
+    return store.listSources();
+  }
+
+  // 删除某个来源的全部分块，返回删除数量
+  static async deleteSource(source: string, store: VectorStoreTool = vectorStoreInstance.getInstance()): Promise<number> {
+    const removed = await store.delete({ filter: { source } });
+    console.log(`[Knowledge] 删除来源 ${source} 的 ${removed} 个分块`);
+    return removed;
+  }
+
+  // 删除整个向量集合
+  static async dropCollection(): Promise<void> {
+    await vectorStoreInstance.getInstance().dropCollection();
+    console.log('[Knowledge] 已删除向量集合');
+  }
+
+  // Embedding 缓存的命中统计
+  static getEmbeddingCacheStatus(): EmbeddingCacheStatus {
+    return {
+      enabled: EMBEDDING_CACHE_CONFIG.enabled,
+      collectionName: EMBEDDING_CACHE_CONFIG.collectionName,
+      models: MongoEmbeddingCache.getStats(),
+    };
+  }
+}
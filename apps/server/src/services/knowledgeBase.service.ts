@@ -0,0 +1,136 @@
+import { knowledgeBaseInstance } from '../utils/mongodb/knowledgeBase.js';
+import { createVectorStore } from '../utils/langchain/vectorStore.js';
+import { createDefaultReranker } from '../utils/langchain/reranker.js';
+import { MultiRAG, RAG } from '../utils/langchain/rag.js';
+import { INGEST_CONFIG, KNOWLEDGE_BASE_CONFIG, RAG_CONFIG } from '../config/index.js';
+import type { CreateKnowledgeBaseDTO, KnowledgeBase, UpdateKnowledgeBaseDTO } from '../types/knowledgeBase.types.js';
+import type { Retriever } from '../types/rag.types.js';
+import type { VectorStoreTool } from '../types/vector.types.js';
+
+const knowledgeBaseTool = knowledgeBaseInstance.getInstance();
+
+// 各知识库的向量库实例，按知识库ID缓存（内存后端的数据保存在实例中）
+const vectorStores = new Map<string, VectorStoreTool>();
+// 各知识库的 RAG 实例，配置更新后按 updatedAt 重建
+const rags = new Map<string, { updatedAt: number; rag: RAG }>();
+
+export class KnowledgeBaseService {
+  // 列出团队的知识库
+  static async list(teamId: string): Promise<KnowledgeBase[]> {
+    return knowledgeBaseTool.list(teamId);
+  }
+
+  // 获取团队的知识库，其他团队的知识库视为不存在
+  static async get(teamId: string, id: string): Promise<KnowledgeBase | null> {
+    return knowledgeBaseTool.findById(teamId, id);
+  }
+
+  // 创建知识库，未指定的参数使用全局配置
+  static async create(teamId: string, data: CreateKnowledgeBaseDTO): Promise<KnowledgeBase> {
+    const knowledgeBase = await knowledgeBaseTool.create({
+      teamId,
+      name: data.name,
+      description: data.description ?? '',
+      embeddingModel: data.embeddingModel ?? KNOWLEDGE_BASE_CONFIG.embeddingModel,
+      embeddingDimensions: data.embeddingDimensions ?? KNOWLEDGE_BASE_CONFIG.embeddingDimensions,
+      chunking: {
+        chunkSize: data.chunking?.chunkSize ?? INGEST_CONFIG.chunkSize,
+        chunkOverlap: data.chunking?.chunkOverlap ?? INGEST_CONFIG.chunkOverlap,
+      },
+      retrieval: {
+        k: data.retrieval?.k ?? RAG_CONFIG.k,
+        similarityThreshold: data.retrieval?.similarityThreshold ?? RAG_CONFIG.similarityThreshold,
+        retrievalMode: data.retrieval?.retrievalMode ?? RAG_CONFIG.retrievalMode,
+        rerank: data.retrieval?.rerank ?? RAG_CONFIG.rerank,
+      },
+    });
+    await KnowledgeBaseService.prepareCollection(knowledgeBase);
+    console.log(`[KnowledgeBase] 团队 ${teamId} 创建知识库 ${knowledgeBase.name}（${knowledgeBase.id}）`);
+    return knowledgeBase;
+  }
+
+  // 更新知识库名称、描述、分块参数与检索默认值，Embedding 模型创建后不可修改
+  static async update(teamId: string, id: string, data: UpdateKnowledgeBaseDTO): Promise<KnowledgeBase | null> {
+    const current = await knowledgeBaseTool.findById(teamId, id);
+    if (!current) return null;
+    return knowledgeBaseTool.update(teamId, id, {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description }),
+      chunking: { ...current.chunking, ...data.chunking },
+      retrieval: { ...current.retrieval, ...data.retrieval },
+    });
+  }
+
+  // 删除知识库及其向量集合
+  static async delete(teamId: string, id: string): Promise<boolean> {
+    const knowledgeBase = await knowledgeBaseTool.findById(teamId, id);
+    if (!knowledgeBase) return false;
+    await KnowledgeBaseService.getVectorStore(knowledgeBase).dropCollection();
+    vectorStores.delete(id);
+    rags.delete(id);
+    const deleted = await knowledgeBaseTool.delete(teamId, id);
+    console.log(`[KnowledgeBase] 团队 ${teamId} 删除知识库 ${knowledgeBase.name}（${id}）`);
+    return deleted;
+  }
+
+  // 获取知识库的向量库，使用知识库自己的集合与 Embedding 模型
+  static getVectorStore(knowledgeBase: KnowledgeBase): VectorStoreTool {
+    let store = vectorStores.get(knowledgeBase.id);
+    if (!store) {
+      store = createVectorStore(undefined, {
+        collectionName: knowledgeBase.collectionName,
+        embeddingModel: knowledgeBase.embeddingModel,
+        embeddingDimensions: knowledgeBase.embeddingDimensions,
+      });
+      vectorStores.set(knowledgeBase.id, store);
+    }
+    return store;
+  }
+
+  /**
+   * @description: 解析对话请求选择的知识库，只能选择本团队的知识库
+   * @param {string} teamId 团队ID
+   * @param {string[]} ids 知识库ID列表
+   * @return {Promise<Retriever | string>} 检索器，知识库不存在时返回错误信息
+   */
+  static async resolveRetriever(teamId: string, ids: string[]): Promise<Retriever | string> {
+    const uniqueIds = [...new Set(ids)];
+    const knowledgeBases = await Promise.all(uniqueIds.map((id) => knowledgeBaseTool.findById(teamId, id)));
+    const missing = uniqueIds.filter((_, index) => !knowledgeBases[index]);
+    if (missing.length) {
+      return `知识库不存在: ${missing.join(', ')}`;
+    }
+    const selected = knowledgeBases
+      .filter((knowledgeBase) => knowledgeBase !== null)
+      .map((knowledgeBase) => KnowledgeBaseService.getRAG(knowledgeBase));
+    const [single] = selected;
+    return selected.length === 1 && single ? single : new MultiRAG(selected);
+  }
+
+  // 按知识库的检索默认值创建 RAG
+  private static getRAG(knowledgeBase: KnowledgeBase): RAG {
+    const updatedAt = new Date(knowledgeBase.updatedAt).getTime();
+    const cached = rags.get(knowledgeBase.id);
+    if (cached && cached.updatedAt === updatedAt) return cached.rag;
+    const { k, similarityThreshold, retrievalMode, rerank } = knowledgeBase.retrieval;
+    const rag = new RAG({
+      name: knowledgeBase.name,
+      vectorStore: KnowledgeBaseService.getVectorStore(knowledgeBase),
+      ragK: k,
+      similarityThreshold,
+      retrievalMode,
+      reranker: createDefaultReranker(rerank) ?? null,
+    });
+    rags.set(knowledgeBase.id, { updatedAt, rag });
+    return rag;
+  }
+
+  // 为新集合创建索引（MongoDB 后端），失败时只记录警告，检索时会再次尝试
+  private static async prepareCollection(knowledgeBase: KnowledgeBase): Promise<void> {
+    try {
+      await KnowledgeBaseService.getVectorStore(knowledgeBase).ensureIndexes?.();
+    } catch (error) {
+      console.warn(`[KnowledgeBase] 知识库 ${knowledgeBase.id} 创建索引失败:`, error);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { promptTemplateInstance } from '../utils/mongodb/promptTemplate.js';
+import { diffLines } from '../utils/tools/diff.js';
+import { RAG_PROMPT_VARIABLES, renderPromptTemplate } from '../utils/tools/prompt.js';
+import type { ChatOptions } from '../utils/langchain/llm.js';
+import type {
+  CreatePromptTemplateDTO,
+  PromptTemplate,
+  PromptTemplateDiff,
+  PromptTemplateSummary,
+  UpdatePromptTemplateDTO,
+} from '../types/promptTemplate.types.js';
+
+const promptTemplateTool = promptTemplateInstance.getInstance();
+
+export class PromptTemplateService {
+  // 列出全部模板的最新版本
+  static async list(): Promise<PromptTemplateSummary[]> {
+    return promptTemplateTool.listLatest();
+  }
+
+  // 获取模板的指定版本，未指定版本时返回最新版本
+  static async get(name: string, version?: number): Promise<PromptTemplate | null> {
+    return promptTemplateTool.find(name, version);
+  }
+
+  // 列出模板的全部版本
+  static async listVersions(name: string): Promise<PromptTemplate[]> {
+    return promptTemplateTool.listVersions(name);
+  }
+
+  // 创建模板，生成版本 1；名称已存在时由唯一索引拒绝
+  static async create(data: CreatePromptTemplateDTO & { variables: string[] }): Promise<PromptTemplate> {
+    const template = await promptTemplateTool.insert({
+      name: data.name,
+      version: 1,
+      type: data.type,
+      template: data.template,
+      variables: data.variables,
+      description: data.description ?? '',
+      rolledBackFrom: null,
+    });
+    console.log(`[PromptTemplate] 创建模板 ${template.name}@1`);
+    return template;
+  }
+
+  // 更新模板：基于最新版本生成新版本，模板类型不可修改
+  static async update(name: string, data: UpdatePromptTemplateDTO & { variables: string[] }): Promise<PromptTemplate | null> {
+    const latest = await promptTemplateTool.find(name);
+    if (!latest) return null;
+    const template = await promptTemplateTool.insert({
+      name,
+      version: latest.version + 1,
+      type: latest.type,
+      template: data.template ?? latest.template,
+      variables: data.variables,
+      description: data.description ?? latest.description,
+      rolledBackFrom: null,
+    });
+    console.log(`[PromptTemplate] 更新模板 ${name}@${template.version}`);
+    return template;
+  }
+
+  // 回滚到指定版本：复制该版本的内容生成新版本，保留完整的版本历史
+  static async rollback(name: string, version: number): Promise<PromptTemplate | null> {
+    const [latest, target] = await Promise.all([promptTemplateTool.find(name), promptTemplateTool.find(name, version)]);
+    if (!latest || !target) return null;
+    const template = await promptTemplateTool.insert({
+      name,
+      version: latest.version + 1,
+      type: target.type,
+      template: target.template,
+      variables: target.variables,
+      description: target.description,
+      rolledBackFrom: version,
+    });
+    console.log(`[PromptTemplate] 模板 ${name} 回滚到版本 ${version}（新版本 ${template.version}）`);
+    return template;
+  }
+
+  // 删除模板的全部版本
+  static async delete(name: string): Promise<boolean> {
+    const deleted = await promptTemplateTool.deleteAll(name);
+    if (deleted) console.log(`[PromptTemplate] 删除模板 ${name}（${deleted} 个版本）`);
+    return deleted > 0;
+  }
+
+  // 对比两个版本，任一版本不存在时返回 null
+  static async diff(name: string, from: number, to: number): Promise<PromptTemplateDiff | null> {
+    const [before, after] = await Promise.all([promptTemplateTool.find(name, from), promptTemplateTool.find(name, to)]);
+    if (!before || !after) return null;
+    return {
+      name,
+      from,
+      to,
+      description: before.description === after.description ? null : { from: before.description, to: after.description },
+      variables: {
+        added: after.variables.filter((variable) => !before.variables.includes(variable)),
+        removed: before.variables.filter((variable) => !after.variables.includes(variable)),
+      },
+      template: diffLines(before.template, after.template),
+    };
+  }
+
+  /**
+   * @description: 解析对话请求引用的模板：system 模板渲染为系统提示词，rag 模板替换内置的 RAG 提示词
+   * @param {string} name 模板名称
+   * @param {number} version 版本号，未指定时使用最新版本
+   * @param {Record<string, string>} values 变量取值（rag 模板的 context 与 question 由检索填入）
+   * @return {Promise<Pick<ChatOptions, 'systemPrompt' | 'ragPromptTemplate'> | string>} 对话选项，模板不存在或缺少变量时返回错误信息
+   */
+  static async resolveForChat(
+    name: string,
+    version: number | undefined,
+    values: Record<string, string>
+  ): Promise<Pick<ChatOptions, 'systemPrompt' | 'ragPromptTemplate'> | string> {
+    const template = await promptTemplateTool.find(name, version);
+    if (!template) {
+      return `提示词模板不存在: ${version === undefined ? name : `${name}@${version}`}`;
+    }
+    const required = template.type === 'rag' ? template.variables.filter((variable) => !RAG_PROMPT_VARIABLES.includes(variable)) : template.variables;
+    const missing = required.filter((variable) => values[variable] === undefined);
+    if (missing.length) {
+      return `缺少模板变量: ${missing.join(', ')}`;
+    }
+    const variables = Object.fromEntries(required.map((variable) => [variable, values[variable] ?? '']));
+    console.log(`[PromptTemplate] 对话使用模板 ${name}@${template.version}`);
+    if (template.type === 'rag') {
+      return { ragPromptTemplate: { template: template.template, variables } };
+    }
+    return { systemPrompt: await renderPromptTemplate(template.template, variables) };
+  }
+}
@@ -0,0 +1,55 @@
+import { toTokenUsage, usageInstance, type UsageQueryOptions } from '../utils/mongodb/usage.js';
+import type { UsageMetadata } from '@langchain/core/messages';
+import type { TokenUsage, UsageRecord, UsageSummary } from '../types/usage.types.js';
+import { USAGE_CONFIG } from '../config/index.js';
+
+/**
+ * @description 调用信息
+ * @param  userId - 用户ID，不传则记为匿名用户
+ * @param  conversationId - 会话ID
+ * @param  model - 模型名称
+ * @param  profile - 模型配置名称
+ */
+export interface UsageContext {
+  userId?: string | undefined;
+  conversationId?: string | null;
+  model: string;
+  profile: string;
+}
+
+export class UsageService {
+  // 记录一次调用的用量，写入失败不影响对话
+  static async record(context: UsageContext, usage: TokenUsage | UsageMetadata | null | undefined): Promise<UsageRecord | null> {
+    const tokens = usage && 'input_tokens' in usage ? toTokenUsage(usage) : usage;
+    if (!tokens) return null;
+    try {
+      return await usageInstance.getInstance().record({
+        ...tokens,
+        userId: context.userId || USAGE_CONFIG.defaultUserId,
+        conversationId: context.conversationId ?? null,
+        model: context.model,
+        profile: context.profile,
+      });
+    } catch (error) {
+      console.error('[Usage] 用量记录失败:', error);
+      return null;
+    }
+  }
+
+  // 聚合统计用量与费用
+  static async summarize(options: UsageQueryOptions): Promise<{ items: UsageSummary[]; total: UsageSummary; currency: string }> {
+    const items = await usageInstance.getInstance().aggregate(options);
+    const total = items.reduce<UsageSummary>(
+      (acc, item) => ({
+        promptTokens: acc.promptTokens + item.promptTokens,
+        completionTokens: acc.completionTokens + item.completionTokens,
+        reasoningTokens: acc.reasoningTokens + item.reasoningTokens,
+        totalTokens: acc.totalTokens + item.totalTokens,
+        cost: Number((acc.cost + item.cost).toFixed(6)),
+        calls: acc.calls + item.calls,
+      }),
+      { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0, cost: 0, calls: 0 }
+    );
+    return { items, total, currency: USAGE_CONFIG.currency };
+  }
+}
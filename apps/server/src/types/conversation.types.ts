@@ -0,0 +1,60 @@
+import type { RetrievedSource } from './rag.types.js';
+
+/**
+ * 消息角色
+ */
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
+
+/**
+ * @description 序列化后的会话消息，字段固定便于前端渲染
+ * @param  role - 消息角色
+ * @param  content - 正文内容
+ * @param  reasoning - 思考内容，没有时为 null
+ * @param  truncated - 是否因客户端断开而中止生成
+ * @param  sources - 回答引用的 RAG 来源，没有时为空数组
+ * @param  createdAt - 消息写入时间，早期未记录时间的消息为 null
+ */
+export interface SerializedMessage {
+  role: MessageRole;
+  content: string;
+  reasoning: string | null;
+  truncated: boolean;
+  sources: RetrievedSource[];
+  createdAt: string | null;
+}
+
+/**
+ * @description 会话摘要
+ * @param  conversationId - 会话ID
+ * @param  messageCount - 消息数量
+ * @param  createdAt - 会话创建时间
+ * @param  updatedAt - 会话更新时间
+ */
+export interface ConversationSummary {
+  conversationId: string;
+  messageCount: number;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * @description 会话的滚动摘要，对话时与未并入摘要的消息一起作为上下文
+ * @param  content - 摘要内容
+ * @param  summarizedCount - 已并入摘要的消息数量，从第一条消息起计
+ * @param  updatedAt - 摘要更新时间
+ */
+export interface ConversationMemory {
+  content: string;
+  summarizedCount: number;
+  updatedAt: string | null;
+}
+
+/**
+ * @description 会话详情
+ * @param  messages - 会话中的消息
+ * @param  memory - 较早消息的滚动摘要，尚未生成时为 null
+ */
+export interface ConversationDetail extends ConversationSummary {
+  messages: SerializedMessage[];
+  memory: ConversationMemory | null;
+}
@@ -0,0 +1,92 @@
+import type { RetrievalMode } from './rag.types.js';
+import type { VectorFilter } from './vector.types.js';
+
+/**
+ * @description 评测用例，expectedIds 与 expectedSnippets 至少提供一个
+ * @param  id - 用例ID，未提供时使用行号
+ * @param  question - 问题
+ * @param  expectedIds - 期望命中的文档：分块ID或来源文件名（元数据 source）
+ * @param  expectedSnippets - 期望命中的答案片段，出现在任一检索结果中即视为命中
+ * @param  filter - 检索时使用的元数据过滤条件
+ */
+export interface EvaluationCase {
+  id: string;
+  question: string;
+  expectedIds: string[];
+  expectedSnippets: string[];
+  filter?: VectorFilter;
+}
+
+/**
+ * @description 参与对比的检索配置，未指定的参数使用知识库或全局配置
+ * @param  name - 配置名称，用于对比报告
+ * @param  knowledgeBaseId - 评测的知识库，未指定时使用全局向量库（换 Embedding 模型需使用不同的知识库）
+ * @param  k - 检索文档数量，即 recall@k 的 k
+ * @param  similarityThreshold - 相似度阈值
+ * @param  retrievalMode - 检索模式
+ * @param  rerank - 是否启用大模型重排序
+ */
+export interface EvaluationConfig {
+  name: string;
+  knowledgeBaseId?: string;
+  k?: number;
+  similarityThreshold?: number;
+  retrievalMode?: RetrievalMode;
+  rerank?: boolean;
+}
+
+/**
+ * @description 单个用例的评测结果
+ * @param  id - 用例ID
+ * @param  question - 问题
+ * @param  retrieved - 检索结果（分块ID或来源文件名）及得分
+ * @param  matched - 命中的期望项
+ * @param  missed - 未命中的期望项
+ * @param  firstRelevantRank - 第一个相关结果的名次（从 1 开始），未命中时为 null
+ * @param  recall - 命中的期望项占比
+ * @param  reciprocalRank - 第一个相关结果名次的倒数
+ * @param  hit - 是否至少命中一个期望项
+ * @param  error - 检索失败时的错误信息
+ */
+export interface EvaluationCaseResult {
+  id: string;
+  question: string;
+  retrieved: { id: string; source: string | null; score: number; relevant: boolean }[];
+  matched: string[];
+  missed: string[];
+  firstRelevantRank: number | null;
+  recall: number;
+  reciprocalRank: number;
+  hit: boolean;
+  error?: string;
+}
+
+/**
+ * @description 汇总指标，均为各用例的平均值
+ * @param  cases - 用例数量
+ * @param  recallAtK - 平均召回率（recall@k）
+ * @param  mrr - 平均倒数排名
+ * @param  hitRate - 命中率
+ * @param  errors - 检索失败的用例数量
+ */
+export interface EvaluationMetrics {
+  cases: number;
+  recallAtK: number;
+  mrr: number;
+  hitRate: number;
+  errors: number;
+}
+
+/**
+ * @description 单个配置的评测报告
+ * @param  config - 检索配置（已填入实际生效的参数）
+ * @param  metrics - 汇总指标
+ * @param  results - 逐个用例的结果
+ * @param  durationMs - 耗时（毫秒）
+ */
+export interface EvaluationReport {
+  config: Required<Omit<EvaluationConfig, 'knowledgeBaseId'>> & { knowledgeBaseId: string | null };
+  metrics: EvaluationMetrics;
+  results: EvaluationCaseResult[];
+  durationMs: number;
+}
@@ -0,0 +1,42 @@
+/**
+ * @description 少样本示例：以 input 计算向量，对话时按与问题的相似度选取
+ * @param  id - 示例ID
+ * @param  input - 示例问题
+ * @param  output - 示例回答
+ * @param  category - 分类，可用于按分类筛选，未设置时为 null
+ * @param  createdAt - 创建时间（ISO 字符串）
+ * @param  updatedAt - 更新时间（ISO 字符串）
+ */
+export interface FewShotExample {
+  id: string;
+  input: string;
+  output: string;
+  category: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * @description 选中的示例及其与问题的相似度（0-1）
+ */
+export interface SelectedFewShotExample extends FewShotExample {
+  score: number;
+}
+
+/**
+ * @description 创建示例参数
+ */
+export interface CreateFewShotExampleDTO {
+  input: string;
+  output: string;
+  category?: string;
+}
+
+/**
+ * @description 更新示例参数，category 传 null 时清除分类
+ */
+export interface UpdateFewShotExampleDTO {
+  input?: string;
+  output?: string;
+  category?: string | null;
+}
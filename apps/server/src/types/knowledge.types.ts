@@ -0,0 +1,70 @@
+/**
+ * 支持导入的文档类型
+ */
+export type DocumentType = 'text' | 'markdown' | 'html' | 'json';
+
+/**
+ * @description 分块参数
+ * @param  chunkSize - 分块大小（字符数）
+ * @param  chunkOverlap - 相邻分块的重叠字符数
+ */
+export interface ChunkOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/**
+ * @description 待导入的文件
+ * @param  filename - 文件名，作为来源写入元数据
+ * @param  type - 文档类型
+ * @param  content - 文件内容
+ */
+export interface UploadedDocument {
+  filename: string;
+  type: DocumentType;
+  content: Buffer;
+}
+
+/**
+ * 导入状态
+ * - created：来源首次导入
+ * - updated：内容有变化，写入新分块并删除旧分块
+ * - unchanged：内容未变化，未写入任何分块
+ */
+export type IngestStatus = 'created' | 'updated' | 'unchanged';
+
+/**
+ * @description 单个文件的导入结果
+ * @param  source - 来源文件名
+ * @param  type - 文档类型
+ * @param  characters - 提取出的文本字符数
+ * @param  chunks - 生成的分块数量
+ * @param  status - 导入状态
+ * @param  added - 新写入的分块数量
+ * @param  removed - 删除的旧分块数量
+ */
+export interface IngestedDocument {
+  source: string;
+  type: DocumentType;
+  characters: number;
+  chunks: number;
+  status: IngestStatus;
+  added: number;
+  removed: number;
+}
+
+/**
+ * @description 导入结果
+ * @param  documents - 每个文件的导入结果
+ * @param  totalChunks - 生成的分块总数
+ * @param  addedChunks - 新写入的分块总数
+ * @param  removedChunks - 删除的旧分块总数
+ * @param  chunkSize - 使用的分块大小
+ * @param  chunkOverlap - 使用的重叠字符数
+ */
+export interface IngestResult extends ChunkOptions {
+  documents: IngestedDocument[];
+  totalChunks: number;
+  addedChunks: number;
+  removedChunks: number;
+}
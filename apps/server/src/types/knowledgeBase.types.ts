@@ -0,0 +1,58 @@
+import type { ChunkOptions } from './knowledge.types.js';
+import type { RetrievalMode } from './rag.types.js';
+
+/**
+ * @description 知识库的检索默认值
+ * @param  k - 检索文档数量
+ * @param  similarityThreshold - 相似度阈值（0-1）
+ * @param  retrievalMode - 检索模式
+ * @param  rerank - 是否启用大模型重排序
+ */
+export interface KnowledgeBaseRetrieval {
+  k: number;
+  similarityThreshold: number;
+  retrievalMode: RetrievalMode;
+  rerank: boolean;
+}
+
+/**
+ * @description 知识库：每个知识库使用独立的向量集合，只对所属团队可见
+ * @param  id - 知识库ID
+ * @param  teamId - 所属团队ID
+ * @param  name - 名称，同一团队内唯一
+ * @param  description - 描述
+ * @param  collectionName - 向量集合名称
+ * @param  embeddingModel - Embedding 模型，创建后不可修改
+ * @param  embeddingDimensions - 向量维度，用于创建 Atlas 向量索引
+ * @param  chunking - 导入文档的默认分块参数
+ * @param  retrieval - 检索默认值
+ */
+export interface KnowledgeBase {
+  id: string;
+  teamId: string;
+  name: string;
+  description: string;
+  collectionName: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  chunking: ChunkOptions;
+  retrieval: KnowledgeBaseRetrieval;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateKnowledgeBaseDTO {
+  name: string;
+  description?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  chunking?: Partial<ChunkOptions>;
+  retrieval?: Partial<KnowledgeBaseRetrieval>;
+}
+
+export interface UpdateKnowledgeBaseDTO {
+  name?: string;
+  description?: string;
+  chunking?: Partial<ChunkOptions>;
+  retrieval?: Partial<KnowledgeBaseRetrieval>;
+}
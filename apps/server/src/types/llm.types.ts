@@ -0,0 +1,61 @@
+import type { RetrievedSource } from './rag.types.js';
+import type { TokenUsage } from './usage.types.js';
+
+/**
+ * 支持的模型服务提供方
+ */
+export type ModelProvider = 'deepseek' | 'openai' | 'ollama';
+
+/**
+ * @description 模型默认生成参数
+ * @param  temperature - 温度参数
+ * @param  topP - Top-p 采样参数
+ * @param  maxTokens - 最大生成 token 数
+ */
+export interface ModelDefaults {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+/**
+ * @description 命名模型配置（Profile），对话请求通过名称选择
+ * @param  name - 配置名称，唯一
+ * @param  provider - 服务提供方
+ * @param  model - 模型名称
+ * @param  baseURL - 服务地址，不传则使用提供方默认地址
+ * @param  apiKey - API Key，不传则读取提供方对应的环境变量
+ * @param  defaults - 默认生成参数
+ * @param  description - 描述
+ */
+export interface ModelProfile {
+  name: string;
+  provider: ModelProvider;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  defaults?: ModelDefaults;
+  description?: string;
+}
+
+/**
+ * @description 非流式对话响应数据
+ * @param  conversationId - 会话ID，续聊时传回
+ * @param  messageId - 本轮回答的消息ID
+ * @param  answer - 完整回答；结构化输出时为 JSON 文本
+ * @param  reasoning - 思考内容
+ * @param  usage - token 用量与费用，模型未返回时为 null
+ * @param  sources - RAG 检索命中的来源文档
+ * @param  queries - RAG 实际用于检索的查询，第一个为改写后的独立问题
+ * @param  data - 结构化输出时校验通过的对象
+ */
+export interface ChatResponseData {
+  conversationId: string;
+  messageId: string;
+  answer: string;
+  reasoning: string;
+  usage: (TokenUsage & { cost: number }) | null;
+  sources: RetrievedSource[];
+  queries: string[];
+  data?: unknown;
+}
@@ -0,0 +1,63 @@
+/**
+ * OpenAI Chat Completions 协议的类型定义（仅包含本服务支持的字段）
+ */
+export type OpenAIRole = 'system' | 'developer' | 'user' | 'assistant';
+
+export interface OpenAIContentPart {
+  type: string;
+  text?: string;
+}
+
+export interface OpenAIChatMessage {
+  role: OpenAIRole;
+  content: string | OpenAIContentPart[] | null;
+}
+
+/**
+ * @description 请求体
+ * @param  rag - 扩展字段：是否启用 RAG 检索，默认关闭
+ */
+export interface OpenAIChatCompletionRequest {
+  model?: string;
+  messages: OpenAIChatMessage[];
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  rag?: boolean;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export type OpenAIFinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | null;
+
+export interface OpenAIChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: { role: 'assistant'; content: string; reasoning_content?: string };
+    finish_reason: OpenAIFinishReason;
+  }[];
+  usage?: OpenAIUsage;
+}
+
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: { role?: 'assistant'; content?: string; reasoning_content?: string };
+    finish_reason: OpenAIFinishReason;
+  }[];
+  usage?: OpenAIUsage | null;
+}
@@ -0,0 +1,85 @@
+/**
+ * 提示词模板类型
+ * - system：渲染后作为系统提示词，变量由对话请求传入
+ * - rag：替换内置的 RAG 提示词，{context} 与 {question} 由检索填入，其余变量由对话请求传入
+ */
+export type PromptTemplateType = 'system' | 'rag';
+
+/**
+ * @description 提示词模板的一个版本，版本创建后不可修改，更新与回滚都会生成新版本
+ * @param  id - 版本ID
+ * @param  name - 模板名称
+ * @param  version - 版本号，从 1 开始递增
+ * @param  type - 模板类型，创建后不可修改
+ * @param  template - 模板内容，变量使用 {name} 形式
+ * @param  variables - 声明的变量
+ * @param  description - 描述
+ * @param  rolledBackFrom - 回滚生成的版本记录来源版本号，否则为 null
+ * @param  createdAt - 创建时间
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  type: PromptTemplateType;
+  template: string;
+  variables: string[];
+  description: string;
+  rolledBackFrom: number | null;
+  createdAt: Date;
+}
+
+/**
+ * @description 模板列表项：最新版本及版本数量
+ */
+export interface PromptTemplateSummary extends PromptTemplate {
+  versions: number;
+}
+
+/**
+ * @description 创建模板参数，未声明 variables 时从模板内容中提取
+ */
+export interface CreatePromptTemplateDTO {
+  name: string;
+  type: PromptTemplateType;
+  template: string;
+  variables?: string[];
+  description?: string;
+}
+
+/**
+ * @description 更新模板参数，未传入的字段沿用最新版本
+ */
+export interface UpdatePromptTemplateDTO {
+  template?: string;
+  variables?: string[];
+  description?: string;
+}
+
+/**
+ * @description 文本差异中的一行
+ * @param  op - equal 未变化，added 新增，removed 删除
+ * @param  line - 行内容
+ */
+export interface DiffLine {
+  op: 'equal' | 'added' | 'removed';
+  line: string;
+}
+
+/**
+ * @description 两个版本的差异
+ * @param  name - 模板名称
+ * @param  from - 旧版本号
+ * @param  to - 新版本号
+ * @param  description - 描述变化，未变化时为 null
+ * @param  variables - 新增与删除的变量
+ * @param  template - 模板内容的逐行差异
+ */
+export interface PromptTemplateDiff {
+  name: string;
+  from: number;
+  to: number;
+  description: { from: string; to: string } | null;
+  variables: { added: string[]; removed: string[] };
+  template: DiffLine[];
+}
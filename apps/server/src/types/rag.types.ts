@@ -0,0 +1,94 @@
+import type { BaseMessage } from '@langchain/core/messages';
+import type { VectorFilter } from './vector.types.js';
+
+/**
+ * 检索模式
+ * - vector：仅向量检索
+ * - hybrid：关键词（BM25）与向量检索并行，结果按倒数排名融合（RRF）合并
+ */
+export type RetrievalMode = 'vector' | 'hybrid';
+
+/**
+ * @description 检索命中的来源文档
+ * @param  index - 引用编号，从 1 开始，对应回答中的 [1] 标注
+ * @param  id - 文档ID，向量库未返回时为 null
+ * @param  content - 文档内容
+ * @param  metadata - 文档元数据（来源、分类等）
+ * @param  score - 相关度分数
+ */
+export interface RetrievedSource {
+  index: number;
+  id: string | null;
+  content: string;
+  metadata: Record<string, unknown>;
+  score: number;
+}
+
+/**
+ * @description 检索结果
+ * @param  sources - 按引用编号排列的来源文档
+ * @param  prompt - 带编号来源的 RAG 提示词
+ * @param  queries - 实际用于检索的查询，第一个为改写后的独立问题，便于调试
+ */
+export interface RetrievalResult {
+  sources: RetrievedSource[];
+  prompt: string;
+  queries: string[];
+}
+
+/**
+ * @description 自定义 RAG 提示词模板
+ * @param  template - 模板内容，需包含 {context} 与 {question}
+ * @param  variables - 其余变量的取值
+ */
+export interface RagPromptTemplate {
+  template: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * @description 检索过程中辅助模型调用（查询改写、重排序）的调用方
+ * @param  userId - 用量记录的用户ID，不传则记为匿名用户
+ * @param  conversationId - 用量记录关联的会话ID
+ * @param  signal - 中止信号，请求取消时一并取消模型调用
+ */
+export interface ModelCallContext {
+  userId?: string | undefined;
+  conversationId?: string | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * @description 检索选项
+ * @param  k - 检索文档数量，默认使用 RAG 配置的 ragK
+ * @param  filter - 元数据过滤条件，只在满足条件的文档中检索
+ * @param  history - 对话历史，用于把追问改写为独立的检索查询
+ * @param  queries - 已改写好的查询，传入时跳过查询改写（多个知识库共用一次改写）
+ * @param  promptTemplate - 组装提示词使用的模板，默认使用内置模板
+ * @param  context - 辅助模型调用的调用方，用于记录用量与取消调用
+ */
+export interface RetrieveOptions {
+  k?: number;
+  filter?: VectorFilter;
+  history?: BaseMessage[];
+  queries?: string[];
+  promptTemplate?: RagPromptTemplate;
+  context?: ModelCallContext;
+}
+
+/**
+ * @description 检索器：检索相关文档并组装 RAG 提示词，单个或多个知识库的检索都实现该接口
+ */
+export interface Retriever {
+  retrieve(query: string, options?: RetrieveOptions): Promise<RetrievalResult>;
+}
+
+/**
+ * @description 重排序器：对检索候选逐一打分，RAG 按得分保留前 ragK 个
+ * @param  name - 重排序器名称，用于日志
+ * @param  score - 返回与候选顺序一一对应的相关度得分（0-1，越大越相关）
+ */
+export interface Reranker {
+  readonly name: string;
+  score(query: string, candidates: string[], context?: ModelCallContext): Promise<number[]>;
+}
@@ -1,3 +1,6 @@
+import type { TokenUsage } from './usage.types.js';
+import type { RetrievedSource } from './rag.types.js';
+
 export enum SSE_TYPE_ENUMS {
   TEXT = 'text',
   THINK_START = 'think-start',
@@ -6,6 +9,13 @@ export enum SSE_TYPE_ENUMS {
   CONVERSATION = 'conversation',
   START = 'start',
   END = 'end',
+  USAGE = 'usage',
+  TOOL_CALL = 'tool-call',
+  TOOL_RESULT = 'tool-result',
+  JSON_PARTIAL = 'json-partial',
+  JSON_INVALID = 'json-invalid',
+  JSON = 'json',
+  SOURCES = 'sources',
 }
 export enum CONVERSATION_TYPE_ENUMS {
   ASK = 'ask',
@@ -31,9 +41,109 @@ export interface Conversation {
  * @param  isThinking - 是否正在思考
  * @param  contentBuffer - 正文内容缓冲区
  * @param  reasoningBuffer - 思考内容缓冲区
+ * @param  content - 累计的完整正文
+ * @param  reasoning - 累计的完整思考内容
+ * @param  usage - 模型返回的 token 用量
  */
 export interface StreamState {
   isThinking: boolean;
   contentBuffer: string;
   reasoningBuffer: string;
+  content: string;
+  reasoning: string;
+  usage: TokenUsage | null;
+}
+
+/**
+ * 流式处理结果，用于持久化本轮对话
+ * @param  conversation - 本轮使用的会话信息
+ * @param  content - 完整正文
+ * @param  reasoning - 完整思考内容
+ * @param  truncated - 是否因客户端断开而提前中止
+ * @param  usage - token 用量，模型未返回时为 null
+ * @param  sources - RAG 检索来源，随回答一起保存
+ */
+export interface StreamResult {
+  conversation: Conversation;
+  content: string;
+  reasoning: string;
+  truncated: boolean;
+  usage: TokenUsage | null;
+  sources: RetrievedSource[];
+}
+
+/**
+ * Agent 工具调用事件
+ * @param  id - 工具调用ID
+ * @param  name - 工具名称
+ * @param  args - 调用参数
+ */
+export interface ToolCallEvent {
+  type: SSE_TYPE_ENUMS.TOOL_CALL;
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Agent 工具结果事件
+ * @param  id - 对应的工具调用ID
+ * @param  name - 工具名称
+ * @param  content - 工具返回内容
+ * @param  isError - 工具是否执行失败
+ */
+export interface ToolResultEvent {
+  type: SSE_TYPE_ENUMS.TOOL_RESULT;
+  id: string;
+  name: string;
+  content: string;
+  isError: boolean;
+}
+
+export type AgentToolEvent = ToolCallEvent | ToolResultEvent;
+
+/**
+ * 结构化输出的部分 JSON 事件，对象生成过程中持续推送
+ * @param  attempt - 当前尝试次数，从 1 开始，重试时客户端应丢弃上一次的部分结果
+ * @param  data - 当前已解析出的部分对象
+ */
+export interface JSONPartialEvent {
+  type: SSE_TYPE_ENUMS.JSON_PARTIAL;
+  attempt: number;
+  data: unknown;
+}
+
+/**
+ * 结构化输出校验失败事件，随后会带上校验错误重试
+ * @param  attempt - 失败的尝试次数
+ * @param  errors - 校验错误
+ */
+export interface JSONInvalidEvent {
+  type: SSE_TYPE_ENUMS.JSON_INVALID;
+  attempt: number;
+  errors: string[];
+}
+
+/**
+ * 结构化输出最终结果事件，数据已通过校验
+ * @param  attempts - 总尝试次数
+ * @param  data - 校验通过的对象
+ */
+export interface JSONResultEvent {
+  type: SSE_TYPE_ENUMS.JSON;
+  attempts: number;
+  data: unknown;
+}
+
+export type StructuredOutputEvent = JSONPartialEvent | JSONInvalidEvent | JSONResultEvent;
+
+/**
+ * RAG 来源事件，在 start 事件之前推送，回答中的 [n] 对应 sources 中 index 为 n 的文档
+ * @param  sources - 按引用编号排列的来源文档
+ * @param  queries - 实际用于检索的查询，第一个为改写后的独立问题，便于调试
+ */
+export interface SourcesEvent {
+  type: SSE_TYPE_ENUMS.SOURCES;
+  sources: RetrievedSource[];
+  queries: string[];
 }
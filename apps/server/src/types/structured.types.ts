@@ -0,0 +1,43 @@
+import type { JSONSchema } from '@langchain/core/utils/json_schema';
+import type { TokenUsage } from './usage.types.js';
+import type { RetrievedSource } from './rag.types.js';
+
+/**
+ * @description 校验结果
+ * @param  success - 是否通过校验
+ * @param  data - 通过校验后的数据（zod 会应用默认值与类型转换）
+ * @param  errors - 校验错误，格式为 `路径: 错误信息`
+ */
+export type SchemaValidationResult = { success: true; data: unknown } | { success: false; errors: string[] };
+
+/**
+ * @description 结构化输出的目标结构
+ * @param  name - 结构名称，作为模型工具 / 函数名称
+ * @param  description - 结构说明，帮助模型理解输出含义
+ * @param  jsonSchema - 传给模型的 JSON Schema
+ * @param  validate - 校验模型输出
+ */
+export interface OutputSchema {
+  name: string;
+  description?: string;
+  jsonSchema: JSONSchema;
+  validate: (value: unknown) => SchemaValidationResult;
+}
+
+/**
+ * @description 结构化输出结果
+ * @param  data - 校验通过的对象，中止时为未经校验的部分对象
+ * @param  attempts - 总尝试次数
+ * @param  usage - 所有尝试累计的 token 用量，中止时包含已产生的用量
+ * @param  sources - RAG 检索命中的来源文档
+ * @param  queries - RAG 实际用于检索的查询
+ * @param  truncated - 是否因客户端断开而中止
+ */
+export interface StructuredResult<T = unknown> {
+  data: T;
+  attempts: number;
+  usage: TokenUsage | null;
+  sources: RetrievedSource[];
+  queries: string[];
+  truncated: boolean;
+}
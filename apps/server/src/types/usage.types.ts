@@ -0,0 +1,60 @@
+/**
+ * @description Token 用量
+ * @param  promptTokens - 输入 token 数
+ * @param  completionTokens - 输出 token 数（包含思考 token）
+ * @param  reasoningTokens - 思考 token 数
+ * @param  totalTokens - 总 token 数
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * @description 模型单价，单位：每百万 token
+ * @param  prompt - 输入单价
+ * @param  completion - 输出单价
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * @description 单次调用的用量记录
+ * @param  userId - 用户ID
+ * @param  conversationId - 会话ID，非会话调用为 null
+ * @param  model - 模型名称
+ * @param  profile - 模型配置名称
+ * @param  cost - 费用
+ * @param  currency - 币种
+ */
+export interface UsageRecord extends TokenUsage {
+  userId: string;
+  conversationId: string | null;
+  model: string;
+  profile: string;
+  cost: number;
+  currency: string;
+  createdAt: Date;
+}
+
+/**
+ * 用量统计的分组维度
+ */
+export type UsageGroupBy = 'day' | 'model';
+
+/**
+ * @description 聚合后的用量统计
+ * @param  day - 日期（YYYY-MM-DD），按天分组时存在
+ * @param  model - 模型名称，按模型分组时存在
+ * @param  calls - 调用次数
+ */
+export interface UsageSummary extends TokenUsage {
+  day?: string;
+  model?: string;
+  cost: number;
+  calls: number;
+}
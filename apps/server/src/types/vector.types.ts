@@ -0,0 +1,141 @@
+import type { Document, DocumentInterface } from '@langchain/core/documents';
+
+/**
+ * 向量库原始得分的方向
+ * - similarity：相似度，越大越相似（如 MongoDB Atlas vectorSearchScore）
+ * - distance：距离，越小越相似（如 Chroma）
+ */
+export type ScoreDirection = 'similarity' | 'distance';
+
+/**
+ * 向量相似度度量方式
+ */
+export type DistanceMetric = 'cosine' | 'euclidean' | 'dotProduct';
+
+/**
+ * 向量库后端类型
+ */
+export type VectorBackend = 'mongodb' | 'chroma' | 'memory';
+
+/**
+ * 元数据字段值
+ */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * @description 单个字段的比较运算，多个运算之间为“且”关系；范围比较在 Chroma 中只支持数值
+ */
+export interface FilterOperators {
+  $eq?: MetadataValue;
+  $ne?: MetadataValue;
+  $in?: MetadataValue[];
+  $nin?: MetadataValue[];
+  $gt?: MetadataValue;
+  $gte?: MetadataValue;
+  $lt?: MetadataValue;
+  $lte?: MetadataValue;
+}
+
+/**
+ * @description 字段条件：直接给值表示相等，或使用比较运算
+ */
+export type FilterCondition = MetadataValue | FilterOperators;
+
+/**
+ * @description 元数据过滤条件，键为元数据字段名，多个字段之间为“且”关系
+ */
+export type VectorFilter = Record<string, FilterCondition>;
+
+/**
+ * @description 删除参数，ids 与 filter 至少提供一个
+ * @param  ids - 文档ID列表
+ * @param  filter - 元数据过滤条件
+ */
+export interface VectorDeleteParams {
+  ids?: string[];
+  filter?: VectorFilter;
+}
+
+/**
+ * @description 读取参数，同时提供时需两者都满足，均未提供时返回全部文档
+ * @param  ids - 文档ID列表
+ * @param  filter - 元数据过滤条件
+ */
+export interface VectorGetParams {
+  ids?: string[];
+  filter?: VectorFilter;
+}
+
+/**
+ * @description 按来源统计的分块信息
+ * @param  source - 来源（导入时的文件名）
+ * @param  chunks - 分块数量
+ * @param  uploadedAt - 最近一次写入的导入时间，缺失时为 null
+ */
+export interface SourceSummary {
+  source: string;
+  chunks: number;
+  uploadedAt: string | null;
+}
+
+/**
+ * @description Embedding 缓存命中统计（进程启动以来）
+ * @param  model - Embedding 模型名称
+ * @param  hits - 命中缓存的文本数量
+ * @param  misses - 未命中、调用模型计算的文本数量
+ * @param  hitRate - 命中率（0-1）
+ */
+export interface EmbeddingCacheStats {
+  model: string;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+/**
+ * @description Embedding 缓存状态
+ * @param  enabled - 是否启用缓存
+ * @param  collectionName - 缓存集合名称
+ * @param  models - 各模型的命中统计
+ */
+export interface EmbeddingCacheStatus {
+  enabled: boolean;
+  collectionName: string;
+  models: EmbeddingCacheStats[];
+}
+
+/**
+ * @description 向量库统一接口，RAG 与知识库导入通过该接口访问不同后端
+ * @param  backend - 后端类型
+ * @param  scoreDirection - 后端原始得分的方向
+ * @param  distanceMetric - 相似度度量方式
+ */
+export interface VectorStoreTool {
+  readonly backend: VectorBackend;
+  readonly scoreDirection: ScoreDirection;
+  readonly distanceMetric: DistanceMetric;
+  /** 添加文档，返回写入的文档ID；文档都带 id 时按 id 覆盖写入（upsert） */
+  addDocuments(documents: Document[]): Promise<string[]>;
+  /** 添加文本，返回写入的文档ID */
+  addTexts(texts: string[], metadatas?: Record<string, unknown>[]): Promise<string[]>;
+  /** 相似度检索，可按元数据过滤 */
+  similaritySearch(query: string, k?: number, filter?: VectorFilter): Promise<DocumentInterface[]>;
+  /** 相似度检索并返回 0-1 之间、越大越相似的归一化得分，按得分从高到低排序 */
+  similaritySearchWithScore(query: string, k?: number, filter?: VectorFilter): Promise<[DocumentInterface, number][]>;
+  /** 关键词检索（BM25 / 全文索引），得分仅用于排序、不同后端之间不可比；未实现的后端只能使用向量检索 */
+  keywordSearch?(query: string, k?: number, filter?: VectorFilter): Promise<[DocumentInterface, number][]>;
+  /** 按ID或元数据删除文档，返回删除数量 */
+  delete(params: VectorDeleteParams): Promise<number>;
+  /** 统计文档数量，可按元数据过滤 */
+  count(filter?: VectorFilter): Promise<number>;
+  /** 列出满足条件的文档ID */
+  listIds(filter?: VectorFilter): Promise<string[]>;
+  /** 按ID或元数据读取文档（不含向量） */
+  getDocuments(params?: VectorGetParams): Promise<DocumentInterface[]>;
+  /** 按来源（元数据 source）分组统计分块，按来源名排序 */
+  listSources(): Promise<SourceSummary[]>;
+  /** 删除整个集合及其中的全部文档 */
+  dropCollection(): Promise<void>;
+  /** 创建检索所需的索引（幂等），不需要索引的后端不实现 */
+  ensureIndexes?(): Promise<void>;
+}
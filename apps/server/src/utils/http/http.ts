@@ -1,6 +1,8 @@
+import { timingSafeEqual } from 'node:crypto';
 import type { ResponseData } from '../../types/http.types.js';
 import { HTTP_ERROR_MESSAGE, HTTP_STATUS } from '../../constants/http.js';
-import type { Response } from 'express';
+import { KNOWLEDGE_BASE_CONFIG } from '../../config/index.js';
+import type { Request, Response } from 'express';
 
 export const successResponse = (data: unknown): ResponseData => {
   return {
@@ -20,6 +22,60 @@ export const errorResponse = (code: number | string, message: string): ResponseD
   };
 };
 
+export const sendErrorResponse = (res: Response, code: number, message: string): void => {
+  // SSE 请求的响应头已提前发送，错误以事件形式返回
+  if (res.headersSent) {
+    res.write(`data: ${JSON.stringify(errorResponse(code, message))}\n\n`);
+    res.end();
+    return;
+  }
+  res.status(code).json(errorResponse(code, message));
+};
+
 export const badRequestResponse = (res: Response, message: string = HTTP_ERROR_MESSAGE.BAD_REQUEST): void => {
-  res.status(HTTP_STATUS.BAD_REQUEST).json(errorResponse(HTTP_STATUS.BAD_REQUEST, message));
+  sendErrorResponse(res, HTTP_STATUS.BAD_REQUEST, message);
+};
+
+/**
+ * 获取调用方用户ID，优先读取请求头 X-User-Id
+ */
+export const getUserId = (req: Request): string | undefined => {
+  const header = req.get('X-User-Id');
+  if (header) return header;
+  const bodyUserId = (req.body as Record<string, unknown> | undefined)?.userId;
+  return typeof bodyUserId === 'string' && bodyUserId ? bodyUserId : undefined;
+};
+
+/**
+ * 按固定时间比较令牌，避免通过响应时间猜测令牌
+ */
+export const matchToken = (token: string, expected: string): boolean => {
+  const actual = Buffer.from(token);
+  const target = Buffer.from(expected);
+  return actual.length === target.length && timingSafeEqual(actual, target);
+};
+
+/**
+ * 根据请求头 X-Team-Token 识别调用方团队，令牌由 KNOWLEDGE_BASE_TEAM_TOKENS 配置，未携带或令牌无效时返回 undefined
+ */
+export const resolveTeamId = (req: Request): string | undefined => {
+  const token = req.get('X-Team-Token');
+  if (!token) return undefined;
+  // 逐个比较全部令牌，耗时与命中哪个令牌无关
+  let teamId: string | undefined;
+  for (const [expected, id] of KNOWLEDGE_BASE_CONFIG.teamTokens) {
+    if (matchToken(token, expected)) teamId = id;
+  }
+  return teamId;
+};
+
+/**
+ * 获取已认证的调用方团队ID，只能在 requireTeam 中间件之后调用
+ */
+export const getTeamId = (req: Request): string => {
+  const teamId = resolveTeamId(req);
+  if (!teamId) {
+    throw new Error('Team is not authenticated, use the requireTeam middleware');
+  }
+  return teamId;
 };
@@ -0,0 +1,111 @@
+import { randomUUID } from 'node:crypto';
+import type { Response } from 'express';
+import { AIMessage, HumanMessage, SystemMessage, type BaseMessage, type UsageMetadata } from '@langchain/core/messages';
+import type {
+  OpenAIChatCompletion,
+  OpenAIChatCompletionChunk,
+  OpenAIChatMessage,
+  OpenAIFinishReason,
+  OpenAIUsage,
+} from '../../types/openai.types.js';
+
+/**
+ * 生成 OpenAI 风格的补全 ID
+ */
+export const createCompletionId = (): string => `chatcmpl-${randomUUID().replace(/-/g, '')}`;
+
+/**
+ * 提取消息正文，兼容字符串与内容分片数组
+ */
+export const getMessageText = (message: OpenAIChatMessage): string => {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+  return message.content
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('');
+};
+
+/**
+ * 将 OpenAI 消息转换为 LangChain 消息
+ */
+export const toLangChainMessage = (message: OpenAIChatMessage): BaseMessage => {
+  const content = getMessageText(message);
+  switch (message.role) {
+    case 'system':
+    case 'developer':
+      return new SystemMessage(content);
+    case 'assistant':
+      return new AIMessage(content);
+    default:
+      return new HumanMessage(content);
+  }
+};
+
+/**
+ * 转换 LangChain 的 token 用量为 OpenAI 格式
+ */
+export const toOpenAIUsage = (usage?: UsageMetadata): OpenAIUsage | undefined => {
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.input_tokens,
+    completion_tokens: usage.output_tokens,
+    total_tokens: usage.total_tokens,
+  };
+};
+
+/**
+ * 规范化结束原因，未知取值统一视为 stop
+ */
+export const toFinishReason = (reason: unknown): OpenAIFinishReason => {
+  if (reason === 'length' || reason === 'content_filter' || reason === 'tool_calls') return reason;
+  return 'stop';
+};
+
+/**
+ * 构建非流式补全响应
+ */
+export const buildCompletion = (
+  id: string,
+  model: string,
+  content: string,
+  reasoning: string,
+  finishReason: OpenAIFinishReason,
+  usage?: OpenAIUsage
+): OpenAIChatCompletion => ({
+  id,
+  object: 'chat.completion',
+  created: Math.floor(Date.now() / 1000),
+  model,
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content, ...(reasoning && { reasoning_content: reasoning }) },
+      finish_reason: finishReason,
+    },
+  ],
+  ...(usage && { usage }),
+});
+
+/**
+ * 构建流式补全分片
+ */
+export const buildCompletionChunk = (
+  id: string,
+  model: string,
+  delta: OpenAIChatCompletionChunk['choices'][number]['delta'],
+  finishReason: OpenAIFinishReason = null
+): OpenAIChatCompletionChunk => ({
+  id,
+  object: 'chat.completion.chunk',
+  created: Math.floor(Date.now() / 1000),
+  model,
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+/**
+ * 发送 OpenAI 流式分片（无 event / id 字段，与官方协议一致）
+ */
+export const sendCompletionChunk = (res: Response, chunk: OpenAIChatCompletionChunk | '[DONE]'): void => {
+  res.write(`data: ${typeof chunk === 'string' ? chunk : JSON.stringify(chunk)}\n\n`);
+};
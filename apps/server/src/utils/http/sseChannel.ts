@@ -0,0 +1,158 @@
+import type { Response } from 'express';
+import type { Conversation } from '../../types/sse.types.js';
+import { SSE_CONFIG } from '../../config/index.js';
+import { formatSSEFrame } from './sseTools.js';
+
+interface BufferedEvent {
+  seq: number;
+  frame: string;
+}
+
+/**
+ * SSE 生成通道
+ * 一次生成对应一个通道：事件 ID 按 `messageId:序号` 递增，并保留有限长度的事件缓存，
+ * 客户端断线后可携带 Last-Event-ID 重新连接，补发错过的事件后继续接收实时输出。
+ */
+export class SSEChannel {
+  readonly conversation: Conversation;
+
+  /** 当前事件序号 */
+  private seq = 0;
+
+  /** 最近的事件缓存 */
+  private readonly buffer: BufferedEvent[] = [];
+
+  /** 正在接收事件的客户端 */
+  private readonly clients = new Set<Response>();
+
+  /** 所有客户端断开且超时后取消生成 */
+  private readonly abortController = new AbortController();
+
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private closed = false;
+
+  constructor(conversation: Conversation) {
+    this.conversation = conversation;
+  }
+
+  /**
+   * 中止信号，传给模型调用
+   */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * @description: 解析 Last-Event-ID 中的序号，不属于本通道时返回 0（全部补发）
+   * @param {string} lastEventId
+   * @return {number}
+   */
+  private parseSeq(lastEventId?: string): number {
+    if (!lastEventId) return 0;
+    const separator = lastEventId.lastIndexOf(':');
+    if (lastEventId.slice(0, separator) !== this.conversation.messageId) return 0;
+    const seq = Number(lastEventId.slice(separator + 1));
+    return Number.isInteger(seq) && seq > 0 ? seq : 0;
+  }
+
+  /**
+   * @description: 推送事件给所有客户端并写入缓存
+   * @param {object} data
+   * @param {string} event
+   */
+  send(data: object, event: string = 'message'): void {
+    this.seq += 1;
+    const frame = formatSSEFrame(`${this.conversation.messageId}:${this.seq}`, event, data);
+    this.buffer.push({ seq: this.seq, frame });
+    if (this.buffer.length > SSE_CONFIG.REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+    for (const client of this.clients) {
+      if (!client.writableEnded && !client.destroyed) client.write(frame);
+    }
+  }
+
+  /**
+   * @description: 接入客户端，先补发 lastEventId 之后的缓存事件，再接收实时事件
+   * @param {Response} res
+   * @param {string} lastEventId
+   */
+  attach(res: Response, lastEventId?: string): void {
+    const lastSeq = this.parseSeq(lastEventId);
+    const oldest = this.buffer[0]?.seq ?? 1;
+    if (lastSeq + 1 < oldest) {
+      console.warn(`[SSE] 消息 ${this.conversation.messageId} 的事件 ${lastSeq + 1}-${oldest - 1} 已超出缓存，无法补发`);
+    }
+    for (const { seq, frame } of this.buffer) {
+      if (seq > lastSeq) res.write(frame);
+    }
+    if (this.closed) {
+      res.end();
+      return;
+    }
+
+    this.clients.add(res);
+    this.clearGraceTimer();
+    res.on('close', () => {
+      this.clients.delete(res);
+      if (!this.clients.size && !this.closed) {
+        this.scheduleAbort();
+      }
+    });
+  }
+
+  /**
+   * @description: 所有客户端断开后等待续传，超时仍无人接入则取消生成
+   */
+  private scheduleAbort(): void {
+    this.clearGraceTimer();
+    console.log(`[SSE] 消息 ${this.conversation.messageId} 的客户端已全部断开，${SSE_CONFIG.RESUME_GRACE_MS}ms 内未续传将取消生成`);
+    this.graceTimer = setTimeout(() => {
+      console.log(`[SSE] 消息 ${this.conversation.messageId} 等待续传超时，取消生成`);
+      this.abortController.abort();
+    }, SSE_CONFIG.RESUME_GRACE_MS);
+  }
+
+  private clearGraceTimer(): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+
+  /**
+   * @description: 生成结束，关闭全部客户端，缓存保留一段时间供迟到的续传使用
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearGraceTimer();
+    for (const client of this.clients) {
+      if (!client.writableEnded) client.end();
+    }
+    this.clients.clear();
+    setTimeout(() => channels.delete(this.conversation.messageId), SSE_CONFIG.REPLAY_TTL_MS).unref();
+  }
+}
+
+/** 进行中及最近结束的生成通道，按 messageId 索引 */
+const channels = new Map<string, SSEChannel>();
+
+/**
+ * 为本次生成创建通道并接入发起请求的客户端
+ * @param res - Express Response 对象
+ * @param conversation - 会话信息
+ */
+export const openSSEChannel = (res: Response, conversation: Conversation): SSEChannel => {
+  const channel = new SSEChannel(conversation);
+  channels.set(conversation.messageId, channel);
+  channel.attach(res);
+  return channel;
+};
+
+/**
+ * 获取生成通道
+ * @param messageId - 消息ID
+ */
+export const getSSEChannel = (messageId: string): SSEChannel | undefined => channels.get(messageId);
@@ -1,42 +1,86 @@
 import { randomUUID } from 'node:crypto';
-import type { Response } from 'express';
-import { CONVERSATION_TYPE_ENUMS, SSE_TYPE_ENUMS, type Conversation, type StreamState } from '../../types/sse.types.js';
+import type { Request, Response } from 'express';
+import {
+  CONVERSATION_TYPE_ENUMS,
+  SSE_TYPE_ENUMS,
+  type AgentToolEvent,
+  type Conversation,
+  type StreamResult,
+  type StreamState,
+  type StructuredOutputEvent,
+} from '../../types/sse.types.js';
+import type { StructuredResult } from '../../types/structured.types.js';
+import type { RetrievedSource } from '../../types/rag.types.js';
 import type { AIMessageChunk, MessageStructure } from '@langchain/core/messages';
 import { SSE_CONFIG } from '../../config/index.js';
+import type { SSEChannel } from './sseChannel.js';
+import { addTokenUsage, calculateCost, toTokenUsage } from '../mongodb/usage.js';
+
+/**
+ * 格式化单个 SSE 事件帧
+ */
+export const formatSSEFrame = (id: string, event: string, data: object): string => {
+  const arr = [`id: ${id}\n`, `event: ${event}\n`, `data: ${JSON.stringify(data)}\n`];
+  return arr.join('') + '\n';
+};
 
 export const sendSSEData = (res: Response, data: object, event: string = 'message'): void => {
-  const arr = [`id: ${randomUUID()} \n`, `event: ${event}\n`, `data: ${JSON.stringify(data)}\n`];
-  res.write(arr.join('') + '\n');
+  // 客户端已断开时不再写入
+  if (res.writableEnded || res.destroyed) return;
+  res.write(formatSSEFrame(randomUUID(), event, data));
 };
 
 export const sendConversation = (res: Response, conversation: Conversation): void => {
   sendSSEData(res, conversation);
 };
 
-export const createConversation = (): Conversation => ({
-  conversationId: randomUUID(),
+/**
+ * 创建会话信息
+ * @param conversationId - 持久化的会话ID，不传则生成新会话
+ */
+export const createConversation = (conversationId: string = randomUUID()): Conversation => ({
+  conversationId,
   conversationType: CONVERSATION_TYPE_ENUMS.ASK,
   localMessageId: randomUUID(),
   messageId: randomUUID(),
   type: SSE_TYPE_ENUMS.CONVERSATION,
 });
 
+/**
+ * 创建随客户端断开而触发的中止控制器
+ * 只监听响应的 close 事件：请求体读取完毕后 req 也会触发 close，无法区分客户端是否断开
+ * @param req - Express Request 对象
+ * @param res - Express Response 对象
+ */
+export const createClientAbortController = (req: Request, res: Response): AbortController => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    // 响应已正常结束则无需中止
+    if (!res.writableFinished) {
+      console.log(`[SSE] 客户端已断开，取消生成：${req.method} ${req.originalUrl}`);
+      controller.abort();
+    }
+  });
+  return controller;
+};
+
 /**
  * 处理思考内容（reasoning content）
  */
 const handleReasoningContent = (
-  res: Response,
+  channel: SSEChannel,
   conversation: ReturnType<typeof createConversation>,
   state: StreamState,
   chunkId: string | undefined,
   reasoningContent: string
 ): void => {
   state.reasoningBuffer += reasoningContent;
+  state.reasoning += reasoningContent;
 
   // 首次进入思考状态
   if (!state.isThinking) {
     state.isThinking = true;
-    sendSSEData(res, {
+    channel.send({
       ...conversation,
       message: { id: chunkId, content: SSE_CONFIG.THINK_START_MSG, type: SSE_TYPE_ENUMS.THINK_START },
     });
@@ -44,7 +88,7 @@ const handleReasoningContent = (
 
   // 缓冲区达到最小发送阈值
   if (state.reasoningBuffer.length >= SSE_CONFIG.MIN_CHUNK_SIZE) {
-    sendSSEData(res, {
+    channel.send({
       ...conversation,
       message: { id: chunkId, content: state.reasoningBuffer, type: SSE_TYPE_ENUMS.THINK },
     });
@@ -56,14 +100,14 @@ const handleReasoningContent = (
  * 结束思考状态
  */
 const endThinkingState = (
-  res: Response,
+  channel: SSEChannel,
   conversation: ReturnType<typeof createConversation>,
   state: StreamState,
   chunkId: string | undefined
 ): void => {
   // 发送剩余的思考内容
   if (state.reasoningBuffer) {
-    sendSSEData(res, {
+    channel.send({
       ...conversation,
       message: { id: chunkId, content: state.reasoningBuffer, type: SSE_TYPE_ENUMS.THINK },
     });
@@ -71,7 +115,7 @@ const endThinkingState = (
   }
 
   // 发送思考结束消息
-  sendSSEData(res, {
+  channel.send({
     ...conversation,
     message: { id: chunkId, content: SSE_CONFIG.THINK_END_MSG, type: SSE_TYPE_ENUMS.THINK_END },
   });
@@ -82,7 +126,7 @@ const endThinkingState = (
  * 处理文本内容（text content）
  */
 const handleTextContent = (
-  res: Response,
+  channel: SSEChannel,
   conversation: ReturnType<typeof createConversation>,
   state: StreamState,
   chunkId: string | undefined,
@@ -92,11 +136,12 @@ const handleTextContent = (
   if (state.isThinking) return; // 思考状态下不处理文本
 
   state.contentBuffer += content;
+  state.content += content;
 
   // 缓冲区达到最小发送阈值或流结束
   if (state.contentBuffer.length >= SSE_CONFIG.MIN_CHUNK_SIZE || isFinished) {
     if (state.contentBuffer) {
-      sendSSEData(res, {
+      channel.send({
         ...conversation,
         message: { id: chunkId, content: state.contentBuffer, type: SSE_TYPE_ENUMS.TEXT },
       });
@@ -105,45 +150,180 @@ const handleTextContent = (
   }
 };
 
+/**
+ * 推送会话信息、检索来源与查询（启用 RAG 时）与开始事件
+ */
+const sendPreamble = (channel: SSEChannel, sources: RetrievedSource[], queries: string[]): void => {
+  const { conversation } = channel;
+  channel.send(conversation);
+  if (sources.length || queries.length) {
+    channel.send({ ...conversation, message: { type: SSE_TYPE_ENUMS.SOURCES, sources, queries } });
+  }
+  channel.send({ ...conversation, message: { type: SSE_TYPE_ENUMS.START } });
+};
+
+/**
+ * 流中的数据项：模型输出块或 Agent 工具事件
+ */
+export type StreamItem = AIMessageChunk<MessageStructure> | AgentToolEvent;
+
+const isToolEvent = (item: StreamItem): item is AgentToolEvent => item.type === SSE_TYPE_ENUMS.TOOL_CALL || item.type === SSE_TYPE_ENUMS.TOOL_RESULT;
+
+/**
+ * 处理工具事件：先输出缓冲中的思考与正文，保证事件顺序与生成顺序一致
+ */
+const handleToolEvent = (channel: SSEChannel, conversation: Conversation, state: StreamState, event: AgentToolEvent): void => {
+  if (state.isThinking) {
+    endThinkingState(channel, conversation, state, undefined);
+  }
+  handleTextContent(channel, conversation, state, undefined, '', true);
+  channel.send({ ...conversation, message: event });
+};
+
 /**
  * 流式响应处理器
- * @param res - Express Response 对象
- * @param stream - AI 消息流
+ * @param channel - SSE 生成通道，事件经通道推送并缓存以支持断线续传
+ * @param stream - AI 消息流，可包含 Agent 工具事件
+ * @param model - 模型名称，用于计算费用
+ * @param sources - RAG 检索来源，在 start 事件之前推送
+ * @param queries - RAG 实际用于检索的查询，随来源一起推送
+ * @returns 完整的正文、思考内容与 token 用量
  */
-export const streamHanlder = async (res: Response, stream: AsyncGenerator<AIMessageChunk<MessageStructure>, void, unknown>) => {
+export const streamHanlder = async (
+  channel: SSEChannel,
+  stream: AsyncGenerator<StreamItem, void, unknown>,
+  model: string,
+  sources: RetrievedSource[] = [],
+  queries: string[] = []
+): Promise<StreamResult> => {
   // 初始化会话
-  const conversation = createConversation();
-  sendConversation(res, conversation);
-  sendSSEData(res, { ...conversation, message: { type: SSE_TYPE_ENUMS.START } });
+  const { conversation, signal } = channel;
+  sendPreamble(channel, sources, queries);
 
   // 初始化状态
   const state: StreamState = {
     isThinking: false,
     contentBuffer: '',
     reasoningBuffer: '',
+    content: '',
+    reasoning: '',
+    usage: null,
   };
 
   // 处理流式数据
+  try {
+    await consumeStream(channel, conversation, state, stream);
+  } catch (error) {
+    if (!signal.aborted) throw error;
+  }
+  // 客户端断开导致的中止不视为错误，返回已生成的部分内容
+  if (signal.aborted) {
+    return { conversation, content: state.content, reasoning: state.reasoning, truncated: true, usage: state.usage, sources };
+  }
+
+  // 发送 token 用量
+  if (state.usage) {
+    channel.send({
+      ...conversation,
+      message: { type: SSE_TYPE_ENUMS.USAGE, usage: { ...state.usage, cost: calculateCost(model, state.usage) } },
+    });
+  }
+
+  // 发送结束消息
+  channel.send({ ...conversation, message: { type: SSE_TYPE_ENUMS.END } });
+
+  return { conversation, content: state.content, reasoning: state.reasoning, truncated: false, usage: state.usage, sources };
+};
+
+/**
+ * 逐块读取 AI 消息流并推送给客户端
+ */
+const consumeStream = async (
+  channel: SSEChannel,
+  conversation: Conversation,
+  state: StreamState,
+  stream: AsyncGenerator<StreamItem, void, unknown>
+): Promise<void> => {
   for await (const chunk of stream) {
-    const { content, id, response_metadata, additional_kwargs } = chunk;
+    if (isToolEvent(chunk)) {
+      handleToolEvent(channel, conversation, state, chunk);
+      continue;
+    }
+    const { id, response_metadata, additional_kwargs, usage_metadata } = chunk;
+    // 用量随数据块增量返回，多次模型调用（如 Agent）时累加
+    state.usage = addTokenUsage(state.usage, toTokenUsage(usage_metadata));
+    // 统一使用 text 读取正文，兼容不同提供方返回的字符串或内容分片
+    const content = chunk.text;
     const reasoningContent = additional_kwargs?.reasoning_content as string | undefined;
 
     // 处理思考内容（有推理内容且无正文内容）
     if (reasoningContent && !content) {
-      handleReasoningContent(res, conversation, state, id as string | undefined, reasoningContent);
+      handleReasoningContent(channel, conversation, state, id as string | undefined, reasoningContent);
     }
     // 从思考状态切换到正文状态
     else if (state.isThinking) {
-      endThinkingState(res, conversation, state, id as string | undefined);
+      endThinkingState(channel, conversation, state, id as string | undefined);
     }
 
     // 处理正文内容
     if (content || response_metadata?.finish_reason) {
       const isFinished = response_metadata?.finish_reason === 'stop';
-      handleTextContent(res, conversation, state, id as string | undefined, content.toString(), isFinished);
+      handleTextContent(channel, conversation, state, id as string | undefined, content, isFinished);
     }
   }
+};
 
-  // 发送结束消息
-  sendSSEData(res, { ...conversation, message: { type: SSE_TYPE_ENUMS.END } });
+/**
+ * 结构化输出流处理器
+ * @param channel - SSE 生成通道
+ * @param stream - 结构化输出事件流，生成器的返回值为最终结果
+ * @param model - 模型名称，用于计算费用
+ * @param sources - RAG 检索来源，在 start 事件之前推送
+ * @param queries - RAG 实际用于检索的查询，随来源一起推送
+ * @returns 正文为校验通过的 JSON 文本，与普通对话使用相同的持久化流程
+ */
+export const structuredStreamHandler = async (
+  channel: SSEChannel,
+  stream: AsyncGenerator<StructuredOutputEvent, StructuredResult, unknown>,
+  model: string,
+  sources: RetrievedSource[] = [],
+  queries: string[] = []
+): Promise<StreamResult> => {
+  const { conversation, signal } = channel;
+  sendPreamble(channel, sources, queries);
+
+  let result: StructuredResult | undefined;
+  let partial: unknown;
+  try {
+    let step = await stream.next();
+    while (!step.done) {
+      if (step.value.type === SSE_TYPE_ENUMS.JSON_PARTIAL) partial = step.value.data;
+      channel.send({ ...conversation, message: step.value });
+      step = await stream.next();
+    }
+    result = step.value;
+  } catch (error) {
+    if (!signal.aborted) throw error;
+  }
+  // 客户端断开导致的中止不视为错误，保存已生成的部分对象与已产生的用量
+  if (!result || result.truncated || signal.aborted) {
+    return {
+      conversation,
+      content: partial === undefined ? '' : JSON.stringify(partial),
+      reasoning: '',
+      truncated: true,
+      usage: result?.usage ?? null,
+      sources,
+    };
+  }
+
+  if (result.usage) {
+    channel.send({
+      ...conversation,
+      message: { type: SSE_TYPE_ENUMS.USAGE, usage: { ...result.usage, cost: calculateCost(model, result.usage) } },
+    });
+  }
+  channel.send({ ...conversation, message: { type: SSE_TYPE_ENUMS.END } });
+
+  return { conversation, content: JSON.stringify(result.data), reasoning: '', truncated: false, usage: result.usage, sources };
 };
@@ -0,0 +1,122 @@
+/**
+ * Agent 模块
+ * 基于模型的工具调用能力循环执行：模型决定调用工具 -> 执行工具 -> 将结果交还模型，直到模型给出最终回答
+ */
+import { randomUUID } from 'node:crypto';
+import { AIMessageChunk, HumanMessage, SystemMessage, ToolMessage, type BaseMessage } from '@langchain/core/messages';
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import type { LLM } from './llm.js';
+import { mergeHistorySummary } from './historySummary.js';
+import { SSE_TYPE_ENUMS, type AgentToolEvent } from '../../types/sse.types.js';
+
+const DEFAULT_SYSTEM_PROMPT = `你是一个工作流编排助手，需要根据用户指令选择合适的工具完成任务。
+规则：
+1. 优先分析用户需求，选择匹配的工具；
+2. 如果需要多步执行，需串联工具调用；
+3. 只使用提供的工具，不编造结果；
+4. 最终返回清晰的任务完成结果。`;
+
+/**
+ * Agent 配置接口
+ */
+export interface AgentConfig {
+  /** 驱动决策的模型 */
+  llm: LLM;
+  /** 可调用的工具 */
+  tools: StructuredToolInterface[];
+  /** 最大工具调用轮数，默认 5 */
+  maxIterations?: number;
+  /** 系统提示词 */
+  systemPrompt?: string;
+}
+
+/**
+ * 单次运行选项
+ */
+export interface AgentRunOptions {
+  /** 历史消息，用于多轮对话 */
+  history?: BaseMessage[];
+  /** 较早对话的摘要，并入系统提示词 */
+  historySummary?: string;
+  /** 中止信号，触发后取消模型生成与工具执行 */
+  signal?: AbortSignal;
+}
+
+export class Agent {
+  private readonly llm: LLM;
+  private readonly tools: StructuredToolInterface[];
+  private readonly maxIterations: number;
+  private readonly systemPrompt: string;
+
+  constructor(config: AgentConfig) {
+    this.llm = config.llm;
+    this.tools = config.tools;
+    this.maxIterations = config.maxIterations ?? 5;
+    this.systemPrompt = config.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+  }
+
+  /**
+   * @description: 执行单个工具调用，失败时返回错误信息交给模型处理
+   */
+  private async invokeTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<{ content: string; isError: boolean }> {
+    const target = this.tools.find((item) => item.name === name);
+    if (!target) {
+      return { content: `工具不存在：${name}`, isError: true };
+    }
+    try {
+      const result = await target.invoke(args, { ...(signal && { signal }) });
+      return { content: typeof result === 'string' ? result : JSON.stringify(result), isError: false };
+    } catch (error) {
+      return { content: `工具调用失败：${error instanceof Error ? error.message : String(error)}`, isError: true };
+    }
+  }
+
+  /**
+   * 流式运行 Agent
+   * @param message 用户消息
+   * @param options 运行选项（历史消息、对话摘要、中止信号）
+   * @returns 异步生成器，依次返回模型输出块与工具调用 / 结果事件
+   */
+  async *run(message: string, options: AgentRunOptions = {}): AsyncGenerator<AIMessageChunk | AgentToolEvent, void, unknown> {
+    const { history = [], historySummary, signal } = options;
+    const chatModel = this.llm.getChatModel();
+    if (!chatModel.bindTools) {
+      throw new Error(`模型配置 ${this.llm.profile.name} 不支持工具调用`);
+    }
+    const model = chatModel.bindTools(this.tools);
+    const messages: BaseMessage[] = [
+      new SystemMessage(mergeHistorySummary(this.systemPrompt, historySummary)),
+      ...history,
+      new HumanMessage(message),
+    ];
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      let response: AIMessageChunk | undefined;
+      const stream = await model.stream(messages, { ...(signal && { signal }) });
+      for await (const chunk of stream) {
+        response = response ? response.concat(chunk) : chunk;
+        yield chunk;
+      }
+
+      const toolCalls = response?.tool_calls ?? [];
+      if (!response || !toolCalls.length) return;
+
+      messages.push(response);
+      for (const call of toolCalls) {
+        const id = call.id ?? randomUUID();
+        yield { type: SSE_TYPE_ENUMS.TOOL_CALL, id, name: call.name, args: call.args };
+        const { content, isError } = await this.invokeTool(call.name, call.args, signal);
+        messages.push(new ToolMessage({ content, tool_call_id: id, name: call.name }));
+        yield { type: SSE_TYPE_ENUMS.TOOL_RESULT, id, name: call.name, content, isError };
+      }
+    }
+
+    console.warn(`[Agent] 已达到最大工具调用轮数 ${this.maxIterations}，停止执行`);
+    yield new AIMessageChunk({
+      content: `\n已达到最大工具调用轮数（${this.maxIterations}），任务未完成。`,
+      response_metadata: { finish_reason: 'stop' },
+    });
+  }
+}
+
+export default Agent;
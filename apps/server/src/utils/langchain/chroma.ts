@@ -1,33 +1,75 @@
 import { Document, type DocumentInterface } from '@langchain/core/documents';
 import { Chroma, type ChromaLibArgs } from '@langchain/community/vectorstores/chroma';
-import { OllamaEmbeddings } from '@langchain/ollama';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
 import 'dotenv/config';
 import { ChromaClient } from 'chromadb';
 import { URL } from 'node:url';
+import { normalizeScore } from '../tools/score.js';
+import { summarizeSources } from '../tools/source.js';
+import { createDefaultEmbeddings } from './embeddings.js';
+import type { Where } from 'chromadb';
+import type {
+  DistanceMetric,
+  ScoreDirection,
+  SourceSummary,
+  VectorDeleteParams,
+  VectorFilter,
+  VectorGetParams,
+  VectorStoreTool,
+} from '../../types/vector.types.js';
 
 export interface ChromaToolboxConfig extends Omit<ChromaLibArgs, 'index'> {
   /** 指定集合名称，不同 collection 互相隔离 */
   collectionName: string;
-  /** 自定义 Embeddings 实例，默认走 Ollama */
-  embeddings?: OllamaEmbeddings;
+  /** 自定义 Embeddings 实例，默认走带 MongoDB 缓存的 Ollama */
+  embeddings?: EmbeddingsInterface;
   /** 默认检索条数 */
   defaultK?: number;
   /** Chroma 服务地址，优先使用 URL */
   url?: string;
   /** 本地持久化目录（与 url 二选一） */
   persistDirectory?: string;
+  /** 集合的距离度量，默认读取 collectionMetadata 中的 hnsw:space，未设置时为 Chroma 默认的 l2 */
+  distanceMetric?: DistanceMetric;
 }
 
+// Chroma hnsw:space 与度量方式的对应关系
+const CHROMA_SPACE_METRICS: Record<string, DistanceMetric> = {
+  cosine: 'cosine',
+  l2: 'euclidean',
+  ip: 'dotProduct',
+};
+
+/**
+ * @description: 将元数据过滤条件转换为 Chroma where，多个条件需使用 $and 组合
+ */
+const toChromaWhere = (filter?: VectorFilter): Where | undefined => {
+  const clauses: Where[] = Object.entries(filter ?? {}).flatMap(([key, condition]) => {
+    if (typeof condition !== 'object') return [{ [key]: condition }];
+    return Object.entries(condition).map(([operator, operand]) => {
+      if (['$gt', '$gte', '$lt', '$lte'].includes(operator) && typeof operand !== 'number') {
+        throw new Error(`Chroma 的范围过滤只支持数值：${key}.${operator}`);
+      }
+      return { [key]: { [operator]: operand } } as Where;
+    });
+  });
+  if (clauses.length === 0) return undefined;
+  if (clauses.length === 1) return clauses[0];
+  return { $and: clauses };
+};
+
 /**
  * 小型工具类：负责初始化 Chroma 向量存储，并提供常用的存储 / 检索方法。
  * 默认会复用环境变量中的配置，也支持手动传入覆盖。
  */
-export class ChromaToolbox {
+export class ChromaToolbox implements VectorStoreTool {
+  readonly backend = 'chroma';
+
   /** 初始化后的配置信息（包含连接参数） */
   private readonly config: ChromaToolboxConfig;
 
   /** 实际使用的 Embeddings 实例 */
-  private readonly embeddings: OllamaEmbeddings;
+  private readonly embeddings: EmbeddingsInterface;
 
   /** 延迟初始化的向量存储 */
   private vectorStorePromise: Chroma | null = null;
@@ -38,15 +80,18 @@ export class ChromaToolbox {
   /** ChromaClient 实例 */
   private readonly chromaClient: ChromaClient;
 
+  /** 原始得分方向：Chroma 返回距离，越小越相似 */
+  readonly scoreDirection: ScoreDirection = 'distance';
+
+  /** 距离度量方式 */
+  readonly distanceMetric: DistanceMetric;
+
   constructor(config: ChromaToolboxConfig) {
     this.config = config;
-    this.embeddings =
-      config.embeddings ??
-      new OllamaEmbeddings({
-        model: process.env.OLLAMA_EMBED_MODEL ?? 'nomic-embed-text:latest',
-        baseUrl: process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434',
-      });
+    this.embeddings = config.embeddings ?? createDefaultEmbeddings();
     this.defaultK = config.defaultK ?? 4;
+    const space = config.collectionMetadata?.['hnsw:space'];
+    this.distanceMetric = config.distanceMetric ?? (typeof space === 'string' ? CHROMA_SPACE_METRICS[space] : undefined) ?? 'euclidean';
     // 根据配置创建 ChromaClient，避免使用已弃用的 path 参数
     this.chromaClient = this.createChromaClient();
   }
@@ -87,7 +132,9 @@ export class ChromaToolbox {
     const resolvedUrl = overrides.url ?? process.env.CHROMA_URL;
     const resolvedPersistDir = overrides.persistDirectory ?? process.env.CHROMA_PERSIST_DIR;
     const resolvedEmbeddings = overrides.embeddings;
+    const resolvedMetric = overrides.distanceMetric ?? CHROMA_SPACE_METRICS[process.env.CHROMA_DISTANCE ?? ''];
     if (resolvedUrl) baseConfig.url = resolvedUrl;
+    if (resolvedMetric) baseConfig.distanceMetric = resolvedMetric;
     if (resolvedPersistDir) baseConfig.persistDirectory = resolvedPersistDir;
     if (resolvedEmbeddings) baseConfig.embeddings = resolvedEmbeddings;
 
@@ -143,22 +190,24 @@ export class ChromaToolbox {
   }
 
   /**
-   * @description: 添加文档
+   * @description: 添加文档，Chroma 按 id upsert，文档都带 id 时沿用，否则生成随机ID
    * @param {Document[]} documents
-   * @return {Promise<void>}
+   * @return {Promise<string[]>} 写入的文档ID
    */
-  async addDocuments(documents: Document[]): Promise<void> {
+  async addDocuments(documents: Document[]): Promise<string[]> {
+    if (!documents.length) return [];
     const store = this.ensureVectorStore();
-    await store.addDocuments(documents);
+    const options = documents.every((doc) => doc.id) ? { ids: documents.map((doc) => String(doc.id)) } : undefined;
+    return store.addDocuments(documents, options);
   }
 
   /**
    * @description: 添加文本
    * @param {string[]} texts
    * @param {Record<string, unknown>[]} metadatas
-   * @return {Promise<void>}
+   * @return {Promise<string[]>}
    */
-  async addTexts(texts: string[], metadatas?: Record<string, unknown>[]): Promise<void> {
+  async addTexts(texts: string[], metadatas?: Record<string, unknown>[]): Promise<string[]> {
     const documents = texts.map(
       (text, index) =>
         new Document({
@@ -166,40 +215,118 @@ export class ChromaToolbox {
           metadata: metadatas?.[index] ?? {},
         })
     );
-    await this.addDocuments(documents);
+    return this.addDocuments(documents);
   }
 
   /**
    * @description: 相似度检索
    * @param {string} query
    * @param {number} k
+   * @param {VectorFilter} filter 元数据过滤条件
    * @return {Promise<DocumentInterface[]>}
    */
-  async similaritySearch(query: string, k: number = this.defaultK): Promise<DocumentInterface[]> {
+  async similaritySearch(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<DocumentInterface[]> {
     const store = this.ensureVectorStore();
-    return store.similaritySearch(query, k);
+    return store.similaritySearch(query, k, toChromaWhere(filter));
   }
 
   /**
    * @description: 相似度检索并返回得分
    * @param {string} query
    * @param {number} k
-   * @return {Promise<[DocumentInterface, number][]>}
+   * @param {VectorFilter} filter 元数据过滤条件
+   * @return {Promise<[DocumentInterface, number][]>} 距离已换算为 0-1 的相似度，越大越相似，按得分从高到低排序
    */
-  async similaritySearchWithScore(query: string, k: number = this.defaultK): Promise<[DocumentInterface, number][]> {
+  async similaritySearchWithScore(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<[DocumentInterface, number][]> {
     const store = this.ensureVectorStore();
-    return store.similaritySearchWithScore(query, k);
+    const results = await store.similaritySearchWithScore(query, k, toChromaWhere(filter));
+    return results
+      .map(([doc, score]): [DocumentInterface, number] => [doc, normalizeScore(score, this.scoreDirection, this.distanceMetric)])
+      .sort(([, a], [, b]) => b - a);
   }
+
+  /**
+   * @description: 按ID或元数据删除文档，同时提供时需两者都满足
+   * @param {VectorDeleteParams} params
+   * @return {Promise<number>} 删除数量
+   */
+  async delete(params: VectorDeleteParams): Promise<number> {
+    const { ids, filter } = params;
+    if (!ids && !filter) {
+      throw new Error('删除文档需要提供 ids 或 filter');
+    }
+    const collection = await this.ensureVectorStore().ensureCollection();
+    const where = toChromaWhere(filter);
+    // Chroma 的 delete 不返回删除数量，先查询命中的ID
+    const matched = await collection.get({ ...(ids && { ids }), ...(where && { where }), include: [] });
+    if (matched.ids.length) {
+      await collection.delete({ ids: matched.ids });
+    }
+    return matched.ids.length;
+  }
+
+  /**
+   * @description: 统计文档数量
+   * @param {VectorFilter} filter
+   * @return {Promise<number>}
+   */
+  async count(filter?: VectorFilter): Promise<number> {
+    const collection = await this.ensureVectorStore().ensureCollection();
+    const where = toChromaWhere(filter);
+    if (!where) return collection.count();
+    const matched = await collection.get({ where, include: [] });
+    return matched.ids.length;
+  }
+
+  /**
+   * @description: 列出满足条件的文档ID
+   * @param {VectorFilter} filter
+   * @return {Promise<string[]>}
+   */
+  async listIds(filter?: VectorFilter): Promise<string[]> {
+    const collection = await this.ensureVectorStore().ensureCollection();
+    const where = toChromaWhere(filter);
+    const matched = await collection.get({ ...(where && { where }), include: [] });
+    return matched.ids;
+  }
+
+  /**
+   * @description: 按ID或元数据读取文档
+   * @param {VectorGetParams} params
+   * @return {Promise<DocumentInterface[]>}
+   */
+  async getDocuments(params: VectorGetParams = {}): Promise<DocumentInterface[]> {
+    const { ids, filter } = params;
+    const collection = await this.ensureVectorStore().ensureCollection();
+    const where = toChromaWhere(filter);
+    const matched = await collection.get({ ...(ids && { ids }), ...(where && { where }), include: ['documents', 'metadatas'] });
+    return matched.ids.map(
+      (id, index) => new Document({ id, pageContent: matched.documents[index] ?? '', metadata: { ...matched.metadatas[index] } })
+    );
+  }
+
+  /**
+   * @description: 按来源统计分块，Chroma 不支持聚合，读取全部元数据后在进程内分组
+   * @return {Promise<SourceSummary[]>}
+   */
+  async listSources(): Promise<SourceSummary[]> {
+    const collection = await this.ensureVectorStore().ensureCollection();
+    const matched = await collection.get({ include: ['metadatas'] });
+    return summarizeSources(matched.metadatas.map((metadata) => metadata ?? {}));
+  }
+
   /**
    * @description: 删除集合
    * @return {Promise<void>}
    */
-  async deleteCollection(): Promise<void> {
+  async dropCollection(): Promise<void> {
     if (!this.chromaClient) {
       throw new Error('ChromaClient not initialized');
     }
     try {
       await this.chromaClient.deleteCollection({ name: this.config.collectionName });
+      // 向量存储缓存了集合引用，下次访问时重新创建
+      this.vectorStorePromise = null;
     } catch (error) {
       console.error('Error deleting collection:', error);
       throw error;
@@ -0,0 +1,28 @@
+/**
+ * Embeddings 工厂
+ * MongoDB 与 Chroma 向量库默认使用 Ollama Embeddings，并按配置包一层 MongoDB 缓存
+ */
+import { OllamaEmbeddings } from '@langchain/ollama';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import 'dotenv/config';
+import { MongoEmbeddingCache } from '../mongodb/embeddingCache.js';
+import { EMBEDDING_CACHE_CONFIG } from '../../config/index.js';
+
+/**
+ * @description: 创建默认的 Embeddings，启用缓存时相同文本只计算一次
+ * @param {string} model Ollama Embedding 模型，默认读取 OLLAMA_EMBED_MODEL
+ * @param {boolean} cache 是否包一层 MongoDB 缓存，默认读取 EMBEDDING_CACHE
+ * @return {EmbeddingsInterface}
+ */
+export const createDefaultEmbeddings = (
+  model: string = process.env.OLLAMA_EMBED_MODEL ?? 'nomic-embed-text:latest',
+  cache: boolean = EMBEDDING_CACHE_CONFIG.enabled
+): EmbeddingsInterface => {
+  const embeddings = new OllamaEmbeddings({
+    model,
+    baseUrl: process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434',
+  });
+  return cache ? new MongoEmbeddingCache({ embeddings, model }) : embeddings;
+};
+
+export default createDefaultEmbeddings;
@@ -0,0 +1,102 @@
+/**
+ * 少样本示例选择
+ * 示例保存在独立的向量集合中（以示例问题计算向量），按与用户问题的语义相似度选取最相近的若干条，
+ * 以一问一答的消息对加入提示词
+ */
+import { Document, type DocumentInterface } from '@langchain/core/documents';
+import { AIMessage, HumanMessage, type BaseMessage } from '@langchain/core/messages';
+import { createVectorStore } from './vectorStore.js';
+import { FEW_SHOT_CONFIG } from '../../config/index.js';
+import type { FewShotExample, SelectedFewShotExample } from '../../types/fewShot.types.js';
+import type { VectorFilter, VectorStoreTool } from '../../types/vector.types.js';
+
+export interface FewShotSelectorConfig {
+  /** 示例向量库，默认使用 FEW_SHOT_COLLECTION 集合 */
+  vectorStore?: VectorStoreTool;
+  /** 相似度阈值，低于此值的示例不选取 */
+  similarityThreshold?: number;
+}
+
+/**
+ * @description: 示例转换为向量库文档，input 作为文档内容参与向量检索
+ * @param {FewShotExample} example
+ * @return {Document}
+ */
+export const toFewShotDocument = (example: FewShotExample): Document =>
+  new Document({
+    id: example.id,
+    pageContent: example.input,
+    metadata: {
+      output: example.output,
+      // Chroma 元数据不支持 null，未设置分类时不写入
+      ...(example.category !== null && { category: example.category }),
+      createdAt: example.createdAt,
+      updatedAt: example.updatedAt,
+    },
+  });
+
+/**
+ * @description: 向量库文档还原为示例
+ * @param {DocumentInterface} doc
+ * @return {FewShotExample}
+ */
+export const toFewShotExample = (doc: DocumentInterface): FewShotExample => ({
+  id: String(doc.id ?? ''),
+  input: doc.pageContent,
+  output: String(doc.metadata.output ?? ''),
+  category: typeof doc.metadata.category === 'string' ? doc.metadata.category : null,
+  createdAt: String(doc.metadata.createdAt ?? ''),
+  updatedAt: String(doc.metadata.updatedAt ?? ''),
+});
+
+/**
+ * @description: 示例转换为一问一答的消息对
+ * @param {FewShotExample[]} examples
+ * @return {BaseMessage[]}
+ */
+export const toFewShotMessages = (examples: FewShotExample[]): BaseMessage[] =>
+  examples.flatMap(({ input, output }) => [new HumanMessage(input), new AIMessage(output)]);
+
+export class FewShotSelector {
+  readonly vectorStore: VectorStoreTool;
+  private readonly similarityThreshold: number;
+
+  constructor(config: FewShotSelectorConfig = {}) {
+    this.vectorStore = config.vectorStore ?? createVectorStore(undefined, { collectionName: FEW_SHOT_CONFIG.collectionName });
+    this.similarityThreshold = config.similarityThreshold ?? FEW_SHOT_CONFIG.similarityThreshold;
+  }
+
+  /**
+   * @description: 选取与问题最相似的示例，相似度低于阈值的示例不选取
+   * @param {string} query 用户问题
+   * @param {number} k 最多选取的示例数量
+   * @param {VectorFilter} filter 元数据过滤条件（如分类）
+   * @return {Promise<SelectedFewShotExample[]>} 按相似度从高到低排序
+   */
+  async select(query: string, k: number, filter?: VectorFilter): Promise<SelectedFewShotExample[]> {
+    if (k <= 0) return [];
+    const results = await this.vectorStore.similaritySearchWithScore(query, k, filter);
+    const selected = results
+      .filter(([, score]) => score >= this.similarityThreshold)
+      .map(([doc, score]) => ({ ...toFewShotExample(doc), score: Number(score.toFixed(4)) }));
+    if (selected.length) {
+      console.log(`[FewShot] 选取 ${selected.length} 个示例: ${selected.map(({ id, score }) => `${id}(${score})`).join(', ')}`);
+    }
+    return selected;
+  }
+}
+
+const fewShotInstance = (function () {
+  let instance: FewShotSelector;
+  return {
+    getInstance: function () {
+      if (!instance) {
+        instance = new FewShotSelector();
+      }
+      return instance;
+    },
+  };
+})();
+
+export { fewShotInstance };
+export default fewShotInstance;
@@ -0,0 +1,91 @@
+/**
+ * 对话摘要模块
+ * 将较早的对话轮次压缩进滚动摘要，避免长会话超出模型上下文
+ */
+import { HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import { modelRegistry } from './providers.js';
+import { HISTORY_MEMORY_CONFIG } from '../../config/index.js';
+import { UsageService } from '../../services/usage.service.js';
+import type { HistoryMemoryOptions, HistorySummarizer } from '../mongodb/chatHistory.js';
+
+export interface LLMHistorySummarizerConfig {
+  /** 生成摘要使用的模型配置名称，默认使用默认模型 */
+  profile?: string;
+  /** 每条消息截取的最大字符数，避免提示词过长 */
+  maxChars?: number;
+}
+
+const SUMMARY_PROMPT = `你负责维护一段对话的滚动摘要。给定已有摘要与其后新增的对话，输出合并后的完整摘要：
+1. 保留用户的目标、偏好、约束以及已确认的事实、结论和待办事项，保留关键的名称、数字与代码标识。
+2. 删除寒暄和重复内容，不要编造对话中没有的信息。
+3. 使用与对话相同的语言，以第三人称陈述，只输出摘要正文。`;
+
+// 摘要并入系统提示词时的前缀
+const SUMMARY_PREFIX = '以下是此前对话的摘要，回答时可参考：\n';
+
+const ROLE_LABELS: Record<string, string> = {
+  human: '用户',
+  ai: '助手',
+  system: '系统',
+  tool: '工具',
+};
+
+export class LLMHistorySummarizer implements HistorySummarizer {
+  private readonly profile: string | undefined;
+  private readonly maxChars: number;
+
+  constructor(config: LLMHistorySummarizerConfig = {}) {
+    this.profile = config.profile;
+    this.maxChars = config.maxChars ?? 4000;
+  }
+
+  /**
+   * @description: 将新增的对话合并进已有摘要，用量记入该会话
+   * @param {string} previous 已有摘要，没有时为空字符串
+   * @param {BaseMessage[]} messages 待合并的消息
+   * @param {string} sessionId 会话ID
+   * @return {Promise<string>} 合并后的摘要
+   */
+  async summarize(previous: string, messages: BaseMessage[], sessionId: string): Promise<string> {
+    const profile = modelRegistry.get(this.profile);
+    const model = modelRegistry.createChatModel(profile, { temperature: 0 });
+    const conversation = messages.map((message) => `${ROLE_LABELS[message.getType()] ?? '用户'}：${message.text.slice(0, this.maxChars)}`).join('\n');
+    const response = await model.invoke([
+      new SystemMessage(SUMMARY_PROMPT),
+      new HumanMessage(`已有摘要：\n${previous || '（无）'}\n\n新增对话：\n${conversation}`),
+    ]);
+    await UsageService.record({ conversationId: sessionId, model: profile.model, profile: profile.name }, response.usage_metadata);
+    const summary = response.text.trim();
+    if (!summary) {
+      throw new Error('模型未返回摘要');
+    }
+    return summary;
+  }
+}
+
+/**
+ * @description: 将对话摘要并入系统提示词，摘要与提示词合并为开头的一条系统消息
+ * @param {string} systemPrompt 系统提示词，没有时为空字符串
+ * @param {string} summary 较早对话的摘要
+ * @return {string} 合并后的系统提示词，两者都为空时返回空字符串
+ */
+export const mergeHistorySummary = (systemPrompt: string, summary?: string | null): string => {
+  if (!summary) return systemPrompt;
+  const section = `${SUMMARY_PREFIX}${summary}`;
+  return systemPrompt ? `${systemPrompt}\n\n${section}` : section;
+};
+
+/**
+ * @description: 根据配置创建对话记忆选项，未启用时返回 undefined
+ * @return {HistoryMemoryOptions | undefined}
+ */
+export const createDefaultHistoryMemory = (): HistoryMemoryOptions | undefined => {
+  if (!HISTORY_MEMORY_CONFIG.enabled) return undefined;
+  return {
+    recentTurns: HISTORY_MEMORY_CONFIG.recentTurns,
+    tokenThreshold: HISTORY_MEMORY_CONFIG.tokenThreshold,
+    summarizer: new LLMHistorySummarizer(HISTORY_MEMORY_CONFIG.profile ? { profile: HISTORY_MEMORY_CONFIG.profile } : {}),
+  };
+};
+
+export default LLMHistorySummarizer;
@@ -1,101 +1,234 @@
 /**
  * LLM 工具模块
- * 封装了基于 ChatDeepSeek 的大语言模型功能，提供流式和非流式输出
+ * 封装了基于模型提供方注册表的大语言模型功能，提供流式和非流式输出
  */
 import 'dotenv/config';
 import type { AIMessageChunk, BaseMessage, MessageStructure } from '@langchain/core/messages';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatDeepSeek, type ChatDeepSeekInput } from '@langchain/deepseek';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ragInstance } from './rag.js';
+import { fewShotInstance, toFewShotMessages } from './fewShot.js';
+import { modelRegistry } from './providers.js';
+import { mergeHistorySummary } from './historySummary.js';
+import { FEW_SHOT_CONFIG } from '../../config/index.js';
+import type { FewShotExample } from '../../types/fewShot.types.js';
+import type { ModelDefaults, ModelProfile } from '../../types/llm.types.js';
+import type { ModelCallContext, RagPromptTemplate, RetrievedSource, Retriever } from '../../types/rag.types.js';
+import type { VectorFilter } from '../../types/vector.types.js';
 import { wrapSDK } from 'langsmith/wrappers';
 /**
  * LLM 配置接口
  */
-interface LLMConfig extends Partial<ChatDeepSeekInput> {
-  /** 模型名称 */
+export interface LLMConfig extends ModelDefaults {
+  /** 模型配置名称，默认使用注册表中的默认配置 */
+  profile?: string;
+  /** 模型名称，覆盖配置中的模型 */
   model?: string;
-  /** 温度参数，控制输出的随机性，范围 0-1，默认 0.7 */
-  temperature?: number;
-  /** Top-p 采样参数，控制多样性，范围 0-1 */
-  topP?: number;
   /** 是否启用 RAG */
   enableRAG?: boolean;
 }
 
+/**
+ * 单次对话选项
+ */
+export interface ChatOptions {
+  /** 系统提示词 */
+  systemPrompt?: string;
+  /** 历史消息，用于多轮对话 */
+  history?: BaseMessage[];
+  /** 较早对话的摘要，并入系统提示词 */
+  historySummary?: string;
+  /** 是否启用 RAG，不传则使用实例配置 */
+  enableRAG?: boolean;
+  /** RAG 检索的元数据过滤条件 */
+  filter?: VectorFilter;
+  /** RAG 检索器（如指定的知识库），默认使用全局知识库 */
+  retriever?: Retriever;
+  /** RAG 提示词模板，默认使用内置模板 */
+  ragPromptTemplate?: RagPromptTemplate;
+  /** 加入提示词的少样本示例数量上限，0 表示不使用，默认读取 FEW_SHOT_K */
+  fewShotK?: number;
+  /** 中止信号，触发后取消模型生成及检索中的模型调用 */
+  signal?: AbortSignal;
+  /** 检索中辅助模型调用（重排序等）的用量归属 */
+  usage?: Omit<ModelCallContext, 'signal'>;
+}
+
+/**
+ * 发送给模型的消息与检索到的来源文档
+ */
+export interface PreparedMessages {
+  messages: BaseMessage[];
+  /** RAG 检索命中的来源文档，未启用 RAG 时为空 */
+  sources: RetrievedSource[];
+  /** RAG 实际用于检索的查询，第一个为改写后的独立问题，未启用 RAG 时为空 */
+  queries: string[];
+}
+
+/**
+ * 非流式对话结果
+ */
+export interface ChatResult {
+  /** 模型完整回复 */
+  message: AIMessageChunk<MessageStructure>;
+  /** RAG 检索命中的来源文档 */
+  sources: RetrievedSource[];
+  /** RAG 实际用于检索的查询 */
+  queries: string[];
+}
+
 /**
  * LLM 类
  * 提供流式和非流式的对话功能
  */
-class LLM extends ChatDeepSeek {
+class LLM {
   private readonly enableRAG: boolean;
+  /** 使用的模型配置 */
+  readonly profile: ModelProfile;
+  /** 实际调用的聊天模型 */
+  private readonly chatModel: BaseChatModel;
   /**
    * 构造函数
    * @param config LLM 配置选项
    */
   constructor(config: LLMConfig = {}) {
-    const options: Record<string, unknown> = {
-      model: config.model || process.env.DEEPSEEK_MODEL,
-      baseURL: process.env.DEEPSEEK_BASE_URL,
-      apiKey: process.env.DEEPSEEK_API_KEY,
-      temperature: config.temperature ?? 0.7,
-      reasoning: config.reasoning ?? true,
-      ...config,
-    };
-    if (config.topP !== undefined) {
-      options.topP = config.topP;
-    }
-    super(options);
-    this.enableRAG = config.enableRAG ?? true;
+    const { profile, model, enableRAG, ...overrides } = config;
+    const baseProfile = modelRegistry.get(profile);
+    this.profile = model ? { ...baseProfile, model } : baseProfile;
+    this.chatModel = modelRegistry.createChatModel(this.profile, overrides);
+    this.enableRAG = enableRAG ?? true;
+  }
+
+  /**
+   * 模型名称
+   */
+  get model(): string {
+    return this.profile.model;
+  }
+
+  /**
+   * 获取底层聊天模型，用于绑定工具等高级用法
+   */
+  getChatModel(): BaseChatModel {
+    return this.chatModel;
+  }
+
+  /**
+   * 构造发送给模型的消息列表（系统提示词、历史消息、RAG 检索结果或用户消息）
+   * @param message 用户消息
+   * @param options 对话选项
+   * @returns 消息列表与检索到的来源文档
+   */
+  async getMessages(message: string, options: ChatOptions = {}): Promise<PreparedMessages> {
+    return setMessage(message, options.enableRAG ?? this.enableRAG, options);
   }
 
   /**
    * 非流式对话
    * @param message 用户消息
-   * @param systemPrompt 系统提示词（可选）
-   * @returns AI 完整回复文本
+   * @param options 对话选项（系统提示词、历史消息、中止信号）
+   * @returns AI 完整回复与检索到的来源文档
    */
-  async chat(message: string, systemPrompt?: string): Promise<AIMessageChunk<MessageStructure>> {
-    const messages: BaseMessage[] = await setMessage(message, this.enableRAG, systemPrompt);
-    const response = await this.invoke(messages);
-    return response;
+  async chat(message: string, options: ChatOptions = {}): Promise<ChatResult> {
+    const { messages, sources, queries } = await this.getMessages(message, options);
+    const response = await this.chatModel.invoke(messages, { ...(options.signal && { signal: options.signal }) });
+    return { message: response, sources, queries };
   }
 
   /**
    * 流式对话
    * @param message 用户消息
-   * @param systemPrompt 系统提示词（可选）
+   * @param options 对话选项（系统提示词、历史消息、中止信号）
    * @returns 异步生成器，逐块返回内容
    */
-  async *chatStream(message: string, systemPrompt?: string): AsyncGenerator<AIMessageChunk<MessageStructure>, void, unknown> {
+  async *chatStream(message: string, options: ChatOptions = {}): AsyncGenerator<AIMessageChunk<MessageStructure>, void, unknown> {
     // 将message放入Chroma进行检索
-    const messages: BaseMessage[] = await setMessage(message, this.enableRAG, systemPrompt);
-    const stream = await this.stream(messages);
+    const { messages } = await this.getMessages(message, options);
+    yield* this.streamMessages(messages, options.signal);
+  }
+
+  /**
+   * 使用已构造好的消息列表流式对话，适用于需要先获取检索来源的场景
+   * @param messages 消息列表，通常来自 getMessages
+   * @param signal 中止信号
+   * @returns 异步生成器，逐块返回内容
+   */
+  async *streamMessages(messages: BaseMessage[], signal?: AbortSignal): AsyncGenerator<AIMessageChunk<MessageStructure>, void, unknown> {
+    const stream = await this.chatModel.stream(messages, { ...(signal && { signal }) });
     for await (const chunk of stream) {
       yield chunk;
     }
   }
 }
-const setMessage = async (message: string, enableRAG: boolean, systemPrompt?: string): Promise<BaseMessage[]> => {
+// 选取少样本示例，失败时不使用示例，不影响对话
+const selectExamples = async (message: string, k: number): Promise<FewShotExample[]> => {
+  if (k <= 0) return [];
+  try {
+    return await fewShotInstance.getInstance().select(message, k);
+  } catch (error) {
+    console.warn('[FewShot] 选取示例失败，不使用示例:', error);
+    return [];
+  }
+};
+const setMessage = async (message: string, enableRAG: boolean, options: ChatOptions): Promise<PreparedMessages> => {
+  const {
+    systemPrompt = '',
+    history = [],
+    historySummary,
+    filter,
+    retriever = ragInstance,
+    fewShotK = FEW_SHOT_CONFIG.k,
+    ragPromptTemplate,
+    signal,
+    usage,
+  } = options;
   const messages: BaseMessage[] = [];
-  if (systemPrompt) {
-    messages.push(new SystemMessage(systemPrompt));
+  let sources: RetrievedSource[] = [];
+  let queries: string[] = [];
+  // 对话摘要并入系统提示词，不在历史中间插入系统消息
+  const system = mergeHistorySummary(systemPrompt, historySummary);
+  if (system) {
+    messages.push(new SystemMessage(system));
   }
+  // 示例选取与 RAG 检索并行
+  const [examples, retrieval] = await Promise.all([
+    selectExamples(message, fewShotK),
+    // 传入历史以便把追问改写为独立的检索查询
+    enableRAG
+      ? retriever.retrieve(message, {
+          history,
+          ...(filter && { filter }),
+          ...(ragPromptTemplate && { promptTemplate: ragPromptTemplate }),
+          context: { ...usage, ...(signal && { signal }) },
+        })
+      : undefined,
+  ]);
+  // 示例以一问一答的形式放在历史消息之前，示范回答的风格与格式
+  messages.push(...toFewShotMessages(examples));
+  // 历史消息放在本轮提问之前，让模型感知上下文
+  messages.push(...history);
   // 是否启用RAG检索
-  if (enableRAG) {
-    const ragMessage = await ragInstance.retrieve(message);
-    messages.push(new SystemMessage(ragMessage));
+  if (retrieval) {
+    ({ sources, queries } = retrieval);
+    messages.push(new SystemMessage(retrieval.prompt));
   } else {
     messages.push(new HumanMessage(message));
   }
-  return messages;
+  return { messages, sources, queries };
 };
 const llmInstance = (function () {
-  let instance: LLM;
+  const instances = new Map<string, LLM>();
   return {
-    getInstance: function () {
+    /**
+     * 获取指定模型配置的单例
+     * @param profile 模型配置名称，默认使用注册表中的默认配置
+     */
+    getInstance: function (profile: string = modelRegistry.defaultProfileName) {
+      let instance = instances.get(profile);
       if (!instance) {
         // 添加监控 通过LangSmith进行监控和可视化
-        instance = wrapSDK(new LLM());
+        instance = wrapSDK(new LLM({ profile }));
+        instances.set(profile, instance);
       }
       return instance;
     },
@@ -0,0 +1,212 @@
+import { Document, type DocumentInterface } from '@langchain/core/documents';
+import { OllamaEmbeddings } from '@langchain/ollama';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import 'dotenv/config';
+import { randomUUID } from 'node:crypto';
+import { cosineSimilarity, normalizeScore } from '../tools/score.js';
+import { BM25Index } from '../tools/bm25.js';
+import { matchesFilter } from '../tools/filter.js';
+import { summarizeSources } from '../tools/source.js';
+import type {
+  DistanceMetric,
+  ScoreDirection,
+  SourceSummary,
+  VectorDeleteParams,
+  VectorFilter,
+  VectorGetParams,
+  VectorStoreTool,
+} from '../../types/vector.types.js';
+
+export interface MemoryVectorToolConfig {
+  /** 自定义 Embeddings 实例，默认走 Ollama */
+  embeddings?: EmbeddingsInterface;
+  /** 默认检索条数 */
+  defaultK?: number;
+}
+
+interface MemoryRecord {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+}
+
+const toDocument = (record: MemoryRecord): Document => new Document({ id: record.id, pageContent: record.content, metadata: { ...record.metadata } });
+
+/**
+ * 内存向量库：数据保存在进程内，使用余弦相似度精确检索（逐条计算），同时维护 BM25 关键词索引，
+ * 无需 Atlas 或 Chroma 服务即可在本地跑通完整的 RAG 流程，进程重启后数据丢失。
+ */
+export class MemoryVectorTool implements VectorStoreTool {
+  readonly backend = 'memory';
+  /** 原始得分方向：内部以余弦距离（1 - cos）排序，越小越相似 */
+  readonly scoreDirection: ScoreDirection = 'distance';
+  /** 相似度度量方式 */
+  readonly distanceMetric: DistanceMetric = 'cosine';
+  private readonly defaultK: number;
+  /** 实际使用的 Embeddings 实例 */
+  private readonly embeddings: EmbeddingsInterface;
+  /** 文档记录，按文档ID索引 */
+  private readonly records = new Map<string, MemoryRecord>();
+  /** 关键词倒排索引 */
+  private readonly keywordIndex = new BM25Index();
+
+  constructor(config: MemoryVectorToolConfig = {}) {
+    this.defaultK = config.defaultK ?? 4;
+    this.embeddings =
+      config.embeddings ??
+      new OllamaEmbeddings({
+        model: process.env.OLLAMA_EMBED_MODEL ?? 'nomic-embed-text:latest',
+        baseUrl: process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434',
+      });
+  }
+
+  /**
+   * @description: 添加文档，文档自带 id 时覆盖同 id 的旧记录
+   * @param {Document[]} documents
+   * @return {Promise<string[]>}
+   */
+  async addDocuments(documents: Document[]): Promise<string[]> {
+    if (!documents.length) return [];
+    const embeddings = await this.embeddings.embedDocuments(documents.map((doc) => doc.pageContent));
+    return documents.map((doc, index) => {
+      const id = doc.id ?? randomUUID();
+      this.records.set(id, { id, content: doc.pageContent, metadata: { ...doc.metadata }, embedding: embeddings[index] ?? [] });
+      this.keywordIndex.add(id, doc.pageContent);
+      return id;
+    });
+  }
+
+  /**
+   * @description: 添加文本
+   * @param {string[]} texts
+   * @param {Record<string, unknown>[]} metadatas
+   * @return {Promise<string[]>}
+   */
+  async addTexts(texts: string[], metadatas?: Record<string, unknown>[]): Promise<string[]> {
+    const documents = texts.map(
+      (text, index) =>
+        new Document({
+          pageContent: text,
+          metadata: metadatas?.[index] ?? {},
+        })
+    );
+    return this.addDocuments(documents);
+  }
+
+  /**
+   * @description: 相似度检索
+   * @param {string} query
+   * @param {number} k
+   * @param {VectorFilter} filter 元数据过滤条件
+   * @return {Promise<DocumentInterface[]>}
+   */
+  async similaritySearch(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<DocumentInterface[]> {
+    const results = await this.similaritySearchWithScore(query, k, filter);
+    return results.map(([doc]) => doc);
+  }
+
+  /**
+   * @description: 相似度检索并返回得分
+   * @param {string} query
+   * @param {number} k
+   * @param {VectorFilter} filter 元数据过滤条件
+   * @return {Promise<[DocumentInterface, number][]>} 得分已归一化到 0-1，越大越相似，按得分从高到低排序
+   */
+  async similaritySearchWithScore(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<[DocumentInterface, number][]> {
+    const candidates = [...this.records.values()].filter((record) => matchesFilter(record.metadata, filter));
+    if (!candidates.length) return [];
+    const queryEmbedding = await this.embeddings.embedQuery(query);
+    return candidates
+      .map((record) => ({ record, distance: 1 - cosineSimilarity(queryEmbedding, record.embedding) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k)
+      .map(({ record, distance }): [DocumentInterface, number] => [
+        toDocument(record),
+        normalizeScore(distance, this.scoreDirection, this.distanceMetric),
+      ]);
+  }
+
+  /**
+   * @description: BM25 关键词检索
+   * @param {string} query
+   * @param {number} k
+   * @param {VectorFilter} filter 元数据过滤条件
+   * @return {Promise<[DocumentInterface, number][]>} 按 BM25 得分从高到低排序
+   */
+  async keywordSearch(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<[DocumentInterface, number][]> {
+    const predicate = filter && ((id: string) => matchesFilter(this.records.get(id)?.metadata ?? {}, filter));
+    return this.keywordIndex.search(query, k, predicate).flatMap(({ id, score }): [DocumentInterface, number][] => {
+      const record = this.records.get(id);
+      return record ? [[toDocument(record), score]] : [];
+    });
+  }
+
+  /**
+   * @description: 按ID或元数据删除文档，同时提供时需两者都满足
+   * @param {VectorDeleteParams} params
+   * @return {Promise<number>} 删除数量
+   */
+  async delete(params: VectorDeleteParams): Promise<number> {
+    const { ids, filter } = params;
+    if (!ids && !filter) {
+      throw new Error('删除文档需要提供 ids 或 filter');
+    }
+    const targets = ids ? ids.map((id) => this.records.get(id)).filter((record) => record !== undefined) : [...this.records.values()];
+    const matched = targets.filter((record) => matchesFilter(record.metadata, filter));
+    matched.forEach((record) => {
+      this.records.delete(record.id);
+      this.keywordIndex.remove(record.id);
+    });
+    return matched.length;
+  }
+
+  /**
+   * @description: 统计文档数量
+   * @param {VectorFilter} filter
+   * @return {Promise<number>}
+   */
+  async count(filter?: VectorFilter): Promise<number> {
+    if (!filter) return this.records.size;
+    return [...this.records.values()].filter((record) => matchesFilter(record.metadata, filter)).length;
+  }
+
+  /**
+   * @description: 列出满足条件的文档ID
+   * @param {VectorFilter} filter
+   * @return {Promise<string[]>}
+   */
+  async listIds(filter?: VectorFilter): Promise<string[]> {
+    return [...this.records.values()].filter((record) => matchesFilter(record.metadata, filter)).map((record) => record.id);
+  }
+
+  /**
+   * @description: 按ID或元数据读取文档
+   * @param {VectorGetParams} params
+   * @return {Promise<DocumentInterface[]>}
+   */
+  async getDocuments(params: VectorGetParams = {}): Promise<DocumentInterface[]> {
+    const { ids, filter } = params;
+    const targets = ids ? ids.map((id) => this.records.get(id)).filter((record) => record !== undefined) : [...this.records.values()];
+    return targets.filter((record) => matchesFilter(record.metadata, filter)).map(toDocument);
+  }
+
+  /**
+   * @description: 按来源统计分块
+   * @return {Promise<SourceSummary[]>}
+   */
+  async listSources(): Promise<SourceSummary[]> {
+    return summarizeSources([...this.records.values()].map((record) => record.metadata));
+  }
+
+  /**
+   * @description: 清空全部文档
+   * @return {Promise<void>}
+   */
+  async dropCollection(): Promise<void> {
+    this.records.forEach((_, id) => this.keywordIndex.remove(id));
+    this.records.clear();
+  }
+}
+
+export default MemoryVectorTool;
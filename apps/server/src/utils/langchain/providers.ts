@@ -0,0 +1,113 @@
+/**
+ * 模型提供方注册表
+ * 维护命名模型配置，并按提供方创建对应的 LangChain 聊天模型
+ */
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatDeepSeek } from '@langchain/deepseek';
+import { ChatOllama } from '@langchain/ollama';
+import { ChatOpenAI } from '@langchain/openai';
+import { MODEL_CONFIG } from '../../config/index.js';
+import type { ModelDefaults, ModelProfile, ModelProvider } from '../../types/llm.types.js';
+
+/**
+ * 各提供方的聊天模型工厂
+ */
+const providerFactories: Record<ModelProvider, (profile: ModelProfile, params: ModelDefaults) => BaseChatModel> = {
+  deepseek: (profile, params) =>
+    new ChatDeepSeek({
+      model: profile.model,
+      apiKey: profile.apiKey ?? process.env.DEEPSEEK_API_KEY ?? '',
+      ...params,
+      ...(profile.baseURL && { configuration: { baseURL: profile.baseURL } }),
+    }),
+  openai: (profile, params) =>
+    new ChatOpenAI({
+      model: profile.model,
+      apiKey: profile.apiKey ?? process.env.OPENAI_API_KEY ?? '',
+      ...params,
+      ...(profile.baseURL && { configuration: { baseURL: profile.baseURL } }),
+    }),
+  ollama: (profile, { maxTokens, ...params }) =>
+    new ChatOllama({
+      model: profile.model,
+      ...params,
+      ...(maxTokens !== undefined && { numPredict: maxTokens }),
+      ...(profile.baseURL && { baseUrl: profile.baseURL }),
+    }),
+};
+
+export class ModelRegistry {
+  private readonly profiles = new Map<string, ModelProfile>();
+
+  /** 默认配置名称 */
+  private defaultName: string;
+
+  constructor(profiles: ModelProfile[] = [], defaultName?: string) {
+    profiles.forEach((profile) => this.register(profile));
+    this.defaultName = defaultName ?? profiles[0]?.name ?? '';
+    if (defaultName !== undefined && !this.profiles.has(defaultName)) {
+      throw new Error(`Default model profile not found: ${defaultName}`);
+    }
+  }
+
+  /**
+   * @description: 注册模型配置，同名配置会被覆盖
+   * @param {ModelProfile} profile
+   */
+  register(profile: ModelProfile): void {
+    if (!providerFactories[profile.provider]) {
+      throw new Error(`Unsupported model provider: ${profile.provider}`);
+    }
+    this.profiles.set(profile.name, profile);
+  }
+
+  /**
+   * @description: 是否存在指定名称的配置
+   * @param {string} name
+   */
+  has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  /**
+   * @description: 获取模型配置，不传名称时返回默认配置
+   * @param {string} name
+   * @return {ModelProfile}
+   */
+  get(name: string = this.defaultName): ModelProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Model profile not found: ${name}`);
+    }
+    return profile;
+  }
+
+  /**
+   * @description: 列出全部配置
+   * @return {ModelProfile[]}
+   */
+  list(): ModelProfile[] {
+    return [...this.profiles.values()];
+  }
+
+  /**
+   * @description: 默认配置名称
+   */
+  get defaultProfileName(): string {
+    return this.defaultName;
+  }
+
+  /**
+   * @description: 根据配置创建聊天模型
+   * @param {ModelProfile} profile
+   * @param {ModelDefaults} overrides 覆盖默认生成参数
+   * @return {BaseChatModel}
+   */
+  createChatModel(profile: ModelProfile, overrides: ModelDefaults = {}): BaseChatModel {
+    const params: ModelDefaults = { ...profile.defaults, ...overrides };
+    return providerFactories[profile.provider](profile, params);
+  }
+}
+
+export const modelRegistry = new ModelRegistry(MODEL_CONFIG.profiles, MODEL_CONFIG.defaultProfile);
+export default modelRegistry;
@@ -0,0 +1,102 @@
+/**
+ * 查询改写模块
+ * 结合对话历史将追问改写为独立的检索查询，可选生成多个同义查询以提高召回
+ */
+import { z } from 'zod';
+import { getBufferString, HumanMessage, isAIMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import { modelRegistry } from './providers.js';
+import { RAG_CONFIG } from '../../config/index.js';
+import { UsageService } from '../../services/usage.service.js';
+import type { ModelCallContext } from '../../types/rag.types.js';
+
+export interface QueryRewriterConfig {
+  /** 改写使用的模型配置名称，默认使用默认模型 */
+  profile?: string;
+  /** 额外生成的同义查询数量，0 表示只改写不扩展 */
+  multiQuery?: number;
+  /** 参考的历史消息条数 */
+  maxHistory?: number;
+}
+
+const REWRITE_PROMPT = `你负责为知识库检索改写用户问题。
+1. 结合对话历史，把最新问题改写为不依赖上下文、可以单独检索的完整问题：补全代词、省略的主语和指代（如“第二个方案”要写出具体名称），不要回答问题，不要添加历史中没有的信息。
+2. 如有要求，再给出若干个措辞不同但含义相同的检索查询，覆盖同义词与不同表述。`;
+
+const rewriteSchema = z.object({
+  standalone: z.string().describe('改写后的独立问题'),
+  queries: z.array(z.string()).describe('含义相同的其他检索查询'),
+});
+
+export class QueryRewriter {
+  private readonly profile: string | undefined;
+  private readonly multiQuery: number;
+  private readonly maxHistory: number;
+
+  constructor(config: QueryRewriterConfig = {}) {
+    this.profile = config.profile;
+    this.multiQuery = config.multiQuery ?? 0;
+    this.maxHistory = config.maxHistory ?? 6;
+  }
+
+  /**
+   * @description: 生成检索查询并按调用方记录用量；没有历史且不需要扩展时不调用模型
+   * @param {string} question 用户最新问题
+   * @param {BaseMessage[]} history 对话历史
+   * @param {ModelCallContext} context 调用方，用于记录用量与取消调用
+   * @return {Promise<string[]>} 去重后的查询，第一个为独立问题；改写失败时只返回原问题，请求已取消时抛出
+   */
+  async rewrite(question: string, history: BaseMessage[] = [], context: ModelCallContext = {}): Promise<string[]> {
+    const recent = this.maxHistory > 0 ? history.slice(-this.maxHistory) : [];
+    if (!recent.length && this.multiQuery === 0) return [question];
+
+    try {
+      const profile = modelRegistry.get(this.profile);
+      const model = modelRegistry.createChatModel(profile, { temperature: 0 });
+      const rewriter = model.withStructuredOutput(rewriteSchema, { name: 'rewrite_query', includeRaw: true });
+      const conversation = recent.length ? `对话历史：\n${getBufferString(recent, '用户', '助手')}\n\n` : '';
+      const instruction = this.multiQuery > 0 ? `另外给出 ${this.multiQuery} 个同义检索查询。` : 'queries 返回空数组。';
+      const { raw, parsed } = await rewriter.invoke(
+        [new SystemMessage(REWRITE_PROMPT), new HumanMessage(`${conversation}最新问题：${question}\n\n${instruction}`)],
+        { ...(context.signal && { signal: context.signal }) }
+      );
+      await UsageService.record(
+        { userId: context.userId, conversationId: context.conversationId ?? null, model: profile.model, profile: profile.name },
+        isAIMessage(raw) ? raw.usage_metadata : undefined
+      );
+      const result: z.infer<typeof rewriteSchema> | undefined = parsed;
+      if (!result) {
+        throw new Error('模型未返回改写结果');
+      }
+
+      const seen = new Set<string>();
+      return [result.standalone.trim() || question, ...result.queries.map((query) => query.trim())]
+        .filter((query) => {
+          const key = query.toLowerCase();
+          if (!query || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, this.multiQuery + 1);
+    } catch (error) {
+      // 请求已取消时不再继续检索
+      if (context.signal?.aborted) throw error;
+      console.warn('[RAG] 查询改写失败，使用原问题检索:', error);
+      return [question];
+    }
+  }
+}
+
+/**
+ * @description: 根据配置创建默认查询改写器，未启用时返回 undefined
+ * @return {QueryRewriter | undefined}
+ */
+export const createDefaultQueryRewriter = (): QueryRewriter | undefined => {
+  if (!RAG_CONFIG.queryRewrite) return undefined;
+  return new QueryRewriter({
+    multiQuery: RAG_CONFIG.multiQuery,
+    maxHistory: RAG_CONFIG.rewriteHistory,
+    ...(RAG_CONFIG.rewriteProfile && { profile: RAG_CONFIG.rewriteProfile }),
+  });
+};
+
+export default QueryRewriter;
@@ -1,70 +1,333 @@
-import { MongodbVectorTool } from '../mongodb/vector.js';
+import { vectorStoreInstance } from './vectorStore.js';
+import { createDefaultReranker } from './reranker.js';
+import { createDefaultQueryRewriter, type QueryRewriter } from './queryRewriter.js';
 import { formatContext, formatRagPrompt } from '../tools/prompt.js';
+import { reciprocalRankFusion } from '../tools/fusion.js';
+import { mergeRetrievedSources } from '../tools/source.js';
+import { RAG_CONFIG } from '../../config/index.js';
+import type { DocumentInterface } from '@langchain/core/documents';
+import type {
+  ModelCallContext,
+  Reranker,
+  RetrievalMode,
+  RetrievalResult,
+  RetrievedSource,
+  Retriever,
+  RetrieveOptions,
+} from '../../types/rag.types.js';
+import type { VectorFilter, VectorStoreTool } from '../../types/vector.types.js';
 export interface RAGConfig {
-  /** MongoDB 向量工具实例，用于向量检索 */
-  mongodbVectorTool?: MongodbVectorTool;
+  /** 向量库实例，用于向量检索，默认使用 VECTOR_STORE_BACKEND 配置的后端 */
+  vectorStore?: VectorStoreTool;
   /** 检索的文档数量 */
   ragK?: number;
-  /** 相似度阈值，低于此值的文档将被过滤（范围 0-1，值越大要求越严格） */
+  /** 相似度阈值，归一化得分低于此值的文档将被过滤（范围 0-1，值越大要求越严格） */
   similarityThreshold?: number;
+  /** 检索模式，hybrid 需要向量库支持关键词检索 */
+  retrievalMode?: RetrievalMode;
+  /** 混合检索时向量检索结果的权重 */
+  vectorWeight?: number;
+  /** 混合检索时向量检索的候选数量 */
+  vectorCandidates?: number;
+  /** 混合检索时关键词检索结果的权重 */
+  keywordWeight?: number;
+  /** 混合检索时关键词检索的候选数量 */
+  keywordCandidates?: number;
+  /** RRF 平滑常数 */
+  rrfK?: number;
+  /** 重排序器，默认由 RAG_RERANK 决定是否启用大模型重排序，传入 null 时不重排序 */
+  reranker?: Reranker | null;
+  /** 重排序前召回的候选数量 */
+  rerankCandidates?: number;
+  /** 查询改写器，默认由 RAG_QUERY_REWRITE 决定是否结合历史改写查询 */
+  queryRewriter?: QueryRewriter;
+  /** 名称，用于日志区分不同知识库 */
+  name?: string;
 }
-export class RAG {
-  private readonly mongodbVectorTool: MongodbVectorTool | undefined;
+
+type ScoredDocument = [DocumentInterface, number];
+
+// 去重键：优先使用文档ID，没有ID时使用内容
+const documentKey = ([doc]: ScoredDocument): string => doc.id ?? doc.pageContent;
+export class RAG implements Retriever {
+  readonly name: string;
+  private readonly vectorStore: VectorStoreTool;
   private readonly ragK: number;
   private readonly similarityThreshold: number;
+  private readonly retrievalMode: RetrievalMode;
+  private readonly vectorWeight: number;
+  private readonly vectorCandidates: number;
+  private readonly keywordWeight: number;
+  private readonly keywordCandidates: number;
+  private readonly rrfK: number;
+  private readonly reranker: Reranker | undefined;
+  private readonly rerankCandidates: number;
+  private readonly queryRewriter: QueryRewriter | undefined;
   constructor(config: RAGConfig) {
-    // 1.初始化 MongoDB 向量工具
-    if (config.mongodbVectorTool) {
-      this.mongodbVectorTool = config.mongodbVectorTool;
-    } else {
-      this.mongodbVectorTool = new MongodbVectorTool({});
-    }
-    // 初始化索引
-    MongodbVectorTool.initSearchIndex(this.mongodbVectorTool.getCollection());
+    this.name = config.name ?? 'default';
+    // 1.初始化向量库，并在后台创建检索所需的索引（幂等，失败时只记录警告）
+    this.vectorStore = config.vectorStore ?? vectorStoreInstance.getInstance();
+    this.vectorStore.ensureIndexes?.().catch((error: unknown) => console.warn(`[RAG] 知识库 ${this.name} 创建索引失败:`, error));
     // 2.初始化检索的文档数量
-    this.ragK = config.ragK ?? 3;
-    // 3.初始化相似度阈值（默认 0.3，可根据实际情况调整）
-    this.similarityThreshold = config.similarityThreshold ?? 0.3;
+    this.ragK = config.ragK ?? RAG_CONFIG.k;
+    // 3.初始化相似度阈值（默认 0.65，可通过 RAG_SIMILARITY_THRESHOLD 调整）
+    this.similarityThreshold = config.similarityThreshold ?? RAG_CONFIG.similarityThreshold;
+    // 4.初始化检索模式与混合检索参数
+    this.retrievalMode = config.retrievalMode ?? RAG_CONFIG.retrievalMode;
+    this.vectorWeight = config.vectorWeight ?? RAG_CONFIG.vectorWeight;
+    this.vectorCandidates = config.vectorCandidates ?? RAG_CONFIG.vectorCandidates;
+    this.keywordWeight = config.keywordWeight ?? RAG_CONFIG.keywordWeight;
+    this.keywordCandidates = config.keywordCandidates ?? RAG_CONFIG.keywordCandidates;
+    this.rrfK = config.rrfK ?? RAG_CONFIG.rrfK;
+    // 5.初始化重排序
+    this.reranker = config.reranker === undefined ? createDefaultReranker() : (config.reranker ?? undefined);
+    this.rerankCandidates = config.rerankCandidates ?? RAG_CONFIG.rerankCandidates;
+    // 6.初始化查询改写
+    this.queryRewriter = config.queryRewriter ?? createDefaultQueryRewriter();
   }
+
   /**
-   * @description: 格式化检索到的文档为上下文字符串
+   * 默认检索的文档数量
+   */
+  get k(): number {
+    return this.ragK;
+  }
+
+  /**
+   * @description: 结合对话历史改写查询，未启用改写时返回原问题
    * @param query 查询问题
-   * @param k 检索文档数量（可选，默认使用配置的 k）
-   * @returns 上下文字符串，如果没有相关文档则返回空字符串
+   * @param options 检索选项，传入 queries 时直接使用
+   * @returns 实际用于检索的查询，第一个为独立问题
    */
-  async retrieve(query: string, k?: number): Promise<string> {
-    if (!this.mongodbVectorTool) {
-      throw new Error('MongodbVectorTool 实例未初始化');
+  async rewriteQuery(query: string, options: RetrieveOptions = {}): Promise<string[]> {
+    if (options.queries?.length) return options.queries;
+    const queries = this.queryRewriter ? await this.queryRewriter.rewrite(query, options.history, options.context) : [query];
+    if (queries.length > 1 || queries[0] !== query) {
+      console.log(`[RAG] 改写查询: ${query} -> ${JSON.stringify(queries)}`);
     }
+    return queries;
+  }
+  /**
+   * @description: 检索与问题相关的文档，向量检索结果按相似度阈值过滤；启用重排序时先召回更多候选，再按重排得分保留前 k 个
+   * @param query 查询问题
+   * @param options 检索数量（默认使用配置的 k）、元数据过滤条件与对话历史
+   * @returns 命中的来源文档，按检索顺序编号
+   */
+  async search(query: string, options: RetrieveOptions = {}): Promise<RetrievedSource[]> {
+    const { sources } = await this.searchWithQueries(query, options);
+    return sources;
+  }
 
-    // 使用 similaritySearchWithScore 获取文档和相似度分数
-    const docsWithScores = await this.mongodbVectorTool.similaritySearchWithScore(query, k || this.ragK);
+  /**
+   * @description: 改写查询后检索：多个查询分别检索，结果按倒数排名融合去重，再统一重排序与截取
+   * @param query 查询问题
+   * @param options 检索选项
+   * @returns 来源文档与实际使用的查询
+   */
+  private async searchWithQueries(query: string, options: RetrieveOptions): Promise<{ sources: RetrievedSource[]; queries: string[] }> {
+    const limit = options.k || this.ragK;
+    // 空过滤条件视为不过滤
+    const filter = options.filter && Object.keys(options.filter).length ? options.filter : undefined;
+    if (filter) {
+      console.log(`[RAG] 元数据过滤: ${JSON.stringify(filter)}`);
+    }
+    const queries = await this.rewriteQuery(query, options);
+    const [primaryQuery = query] = queries;
 
-    // 根据相似度阈值过滤文档
-    const relevantDocs = docsWithScores
-      .filter(([, score]) => {
-        // 注意：Chroma 的相似度分数越小表示越相似（距离度量）
-        // 所以这里需要反向比较：分数小于阈值才保留
-        console.log(`[RAG] 文档相似度分数: ${score}`);
-        return score <= this.similarityThreshold;
-      })
-      .map(([doc]) => doc);
+    const candidates = this.reranker ? Math.max(limit, this.rerankCandidates) : limit;
+    const results = await Promise.all(
+      queries.map((item) =>
+        this.retrievalMode === 'hybrid' ? this.hybridSearch(item, candidates, filter) : this.vectorSearch(item, candidates, filter)
+      )
+    );
+    const retrieved = results.length > 1 ? this.mergeQueryResults(results) : (results[0] ?? []);
+    const relevantDocs = this.reranker
+      ? await this.rerank(this.reranker, primaryQuery, retrieved, limit, options.context)
+      : retrieved.slice(0, limit);
 
     if (relevantDocs.length === 0) {
       console.log('[RAG] 未找到相关文档，所有文档相似度都低于阈值');
     }
 
-    console.log(`[RAG] 检索到 ${relevantDocs.length} 个相关文档`);
-    console.log(relevantDocs);
-    const context = await formatRagPrompt(formatContext(relevantDocs), query);
-    return context;
+    console.log(`[RAG] ${this.name} 检索到 ${relevantDocs.length} 个相关文档`);
+    const sources = relevantDocs.map(([doc, score], index) => ({
+      index: index + 1,
+      id: doc.id ?? null,
+      content: doc.pageContent,
+      metadata: doc.metadata,
+      score,
+    }));
+    return { sources, queries };
+  }
+
+  /**
+   * @description: 合并多个查询的检索结果：按倒数排名融合排序并去重，得分取各查询中的最高分
+   * @param results 各查询的检索结果
+   */
+  private mergeQueryResults(results: ScoredDocument[][]): ScoredDocument[] {
+    const bestScores = new Map<string, number>();
+    results.flat().forEach((item) => {
+      const key = documentKey(item);
+      bestScores.set(key, Math.max(bestScores.get(key) ?? 0, item[1]));
+    });
+    const fused = reciprocalRankFusion(
+      results.map((items) => ({ items, weight: 1 })),
+      documentKey,
+      this.rrfK
+    );
+    console.log(`[RAG] 多查询检索: ${results.map((items) => items.length).join(' + ')} 个结果，去重后 ${fused.length} 个`);
+    return fused.map(({ item }): ScoredDocument => [item[0], bestScores.get(documentKey(item)) ?? item[1]]);
+  }
+
+  /**
+   * @description: 向量检索，按相似度阈值过滤
+   * @param query 查询问题
+   * @param k 检索文档数量
+   * @param filter 元数据过滤条件
+   */
+  private async vectorSearch(query: string, k: number, filter?: VectorFilter): Promise<ScoredDocument[]> {
+    // 使用 similaritySearchWithScore 获取文档和相似度分数
+    const docsWithScores = await this.vectorStore.similaritySearchWithScore(query, k, filter);
+
+    // 根据相似度阈值过滤文档
+    return docsWithScores.filter(([, score]) => {
+      // 向量工具返回的得分已归一化为 0-1，越大越相似，因此保留不低于阈值的文档
+      console.log(`[RAG] 文档相似度分数: ${score}`);
+      return score >= this.similarityThreshold;
+    });
+  }
+
+  /**
+   * @description: 混合检索：关键词与向量检索并行，按倒数排名融合（RRF）合并
+   * 融合得分除以理论最大值（两路均排第一）归一化到 0-1；关键词检索不可用时退回向量检索
+   * @param query 查询问题
+   * @param k 检索文档数量
+   * @param filter 元数据过滤条件，两路检索都会应用
+   */
+  private async hybridSearch(query: string, k: number, filter?: VectorFilter): Promise<ScoredDocument[]> {
+    const { vectorStore } = this;
+    if (!vectorStore.keywordSearch) {
+      console.warn(`[RAG] ${vectorStore.backend} 向量库不支持关键词检索，使用向量检索`);
+      return this.vectorSearch(query, k, filter);
+    }
+
+    const [vectorHits, keywordHits] = await Promise.all([
+      this.vectorSearch(query, Math.max(k, this.vectorCandidates), filter),
+      vectorStore.keywordSearch(query, Math.max(k, this.keywordCandidates), filter).catch((error: unknown) => {
+        console.warn('[RAG] 关键词检索失败，仅使用向量检索结果:', error);
+        return [];
+      }),
+    ]);
+
+    const fused = reciprocalRankFusion(
+      [
+        { items: vectorHits, weight: this.vectorWeight },
+        { items: keywordHits, weight: this.keywordWeight },
+      ],
+      documentKey,
+      this.rrfK
+    );
+    console.log(`[RAG] 混合检索: 向量 ${vectorHits.length} 个，关键词 ${keywordHits.length} 个，融合后 ${fused.length} 个`);
+
+    const maxScore = (this.vectorWeight + this.keywordWeight) / (this.rrfK + 1) || 1;
+    return fused.slice(0, k).map(({ item: [doc], score }): ScoredDocument => [doc, score / maxScore]);
+  }
+
+  /**
+   * @description: 重排序：为候选打分并保留得分最高的 k 个，来源得分替换为重排得分；重排失败时按检索顺序截取，请求已取消时抛出
+   * @param reranker 重排序器
+   * @param query 查询问题
+   * @param candidates 检索候选
+   * @param k 保留数量
+   * @param context 重排模型调用的调用方
+   */
+  private async rerank(
+    reranker: Reranker,
+    query: string,
+    candidates: ScoredDocument[],
+    k: number,
+    context?: ModelCallContext
+  ): Promise<ScoredDocument[]> {
+    if (candidates.length === 0) return candidates;
+    let scores: number[];
+    try {
+      scores = await reranker.score(
+        query,
+        candidates.map(([doc]) => doc.pageContent),
+        context
+      );
+    } catch (error) {
+      // 请求已取消时不再继续检索
+      if (context?.signal?.aborted) throw error;
+      console.warn(`[RAG] 重排序（${reranker.name}）失败，使用检索顺序:`, error);
+      return candidates.slice(0, k);
+    }
+
+    const ranked = candidates
+      .map(([doc, retrievalScore], index) => ({ doc, retrievalScore, score: scores[index] ?? 0 }))
+      .sort((a, b) => b.score - a.score);
+    const describe = ({ doc, retrievalScore, score }: (typeof ranked)[number]) =>
+      `${String(doc.metadata.source ?? doc.id ?? doc.pageContent.slice(0, 20))}（检索 ${retrievalScore.toFixed(3)}，重排 ${score.toFixed(2)}）`;
+    const kept = ranked.slice(0, k);
+    const dropped = ranked.slice(k);
+    console.log(`[RAG] 重排序（${reranker.name}）保留 ${kept.length} 个: ${kept.map(describe).join('; ')}`);
+    if (dropped.length) {
+      console.log(`[RAG] 重排序（${reranker.name}）丢弃 ${dropped.length} 个: ${dropped.map(describe).join('; ')}`);
+    }
+    return kept.map(({ doc, score }): ScoredDocument => [doc, score]);
+  }
+
+  /**
+   * @description: 检索相关文档并组装为带编号来源的提示词，模型可使用 [1] 形式引用来源
+   * @param query 查询问题
+   * @param options 检索数量（默认使用配置的 k）、元数据过滤条件与对话历史
+   * @returns 来源文档、提示词与实际使用的查询
+   */
+  async retrieve(query: string, options: RetrieveOptions = {}): Promise<RetrievalResult> {
+    const { sources, queries } = await this.searchWithQueries(query, options);
+    const prompt = await formatRagPrompt(formatContext(sources), query, options.promptTemplate);
+    return { sources, prompt, queries };
   }
   /**
    * 检查 RAG 是否可用
-   * @returns 如果 MongoDB 向量工具已初始化则返回 true
+   * @returns 如果向量库已初始化则返回 true
    */
   isAvailable(): boolean {
-    return this.mongodbVectorTool !== undefined;
+    return this.vectorStore !== undefined;
+  }
+}
+
+/**
+ * 多知识库检索：查询只改写一次，各知识库按自身配置并行检索，结果按名次融合去重后统一编号
+ */
+export class MultiRAG implements Retriever {
+  private readonly rags: RAG[];
+
+  constructor(rags: RAG[]) {
+    if (!rags.length) {
+      throw new Error('MultiRAG 至少需要一个知识库');
+    }
+    this.rags = rags;
+  }
+
+  /**
+   * @description: 检索多个知识库并组装提示词
+   * @param query 查询问题
+   * @param options 检索选项，k 默认取各知识库 k 的最大值
+   * @returns 来源文档、提示词与实际使用的查询
+   */
+  async retrieve(query: string, options: RetrieveOptions = {}): Promise<RetrievalResult> {
+    const [first] = this.rags;
+    const queries = first ? await first.rewriteQuery(query, options) : [query];
+    const results = await Promise.all(this.rags.map((rag) => rag.search(query, { ...options, queries })));
+    const limit = options.k || Math.max(...this.rags.map((rag) => rag.k));
+
+    // 各知识库的得分尺度不同，按名次合并，避免某个知识库挤占全部名额
+    const sources = mergeRetrievedSources(results, limit);
+    console.log(`[RAG] 多知识库检索: ${results.map((items) => items.length).join(' + ')} 个结果，保留 ${sources.length} 个`);
+
+    const prompt = await formatRagPrompt(formatContext(sources), query, options.promptTemplate);
+    return { sources, prompt, queries };
   }
 }
 
@@ -0,0 +1,91 @@
+/**
+ * 重排序模块
+ * 使用大模型作为相关度评审，对检索候选打分
+ */
+import { z } from 'zod';
+import { HumanMessage, isAIMessage, SystemMessage } from '@langchain/core/messages';
+import { modelRegistry } from './providers.js';
+import { RAG_CONFIG } from '../../config/index.js';
+import { UsageService } from '../../services/usage.service.js';
+import type { ModelCallContext, Reranker } from '../../types/rag.types.js';
+
+export interface LLMRerankerConfig {
+  /** 评审使用的模型配置名称，默认使用默认模型 */
+  profile?: string;
+  /** 每个候选截取的最大字符数，避免提示词过长 */
+  maxChars?: number;
+}
+
+const JUDGE_PROMPT = `你是检索结果的相关度评审。给定用户问题与若干编号的候选文档，判断每个文档对回答该问题的帮助程度，按 0-10 打分：
+- 10：直接包含答案
+- 5：相关但不足以回答
+- 0：无关
+必须为每个候选给出分数，index 与候选编号一致。`;
+
+const judgeSchema = z.object({
+  scores: z
+    .array(
+      z.object({
+        index: z.number().int().describe('候选编号'),
+        score: z.number().min(0).max(10).describe('相关度得分，0-10'),
+      })
+    )
+    .describe('每个候选的相关度得分'),
+});
+
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private readonly profile: string | undefined;
+  private readonly maxChars: number;
+
+  constructor(config: LLMRerankerConfig = {}) {
+    this.profile = config.profile;
+    this.maxChars = config.maxChars ?? 1000;
+  }
+
+  /**
+   * @description: 一次调用为全部候选打分，并按调用方记录用量
+   * @param {string} query 用户问题
+   * @param {string[]} candidates 候选文档内容
+   * @param {ModelCallContext} context 调用方，用于记录用量与取消调用
+   * @return {Promise<number[]>} 与候选一一对应的 0-1 得分，模型漏评的候选记为 0
+   */
+  async score(query: string, candidates: string[], context: ModelCallContext = {}): Promise<number[]> {
+    if (!candidates.length) return [];
+    const profile = modelRegistry.get(this.profile);
+    const model = modelRegistry.createChatModel(profile, { temperature: 0 });
+    const judge = model.withStructuredOutput(judgeSchema, { name: 'relevance_scores', includeRaw: true });
+    const content = candidates.map((candidate, index) => `[${index + 1}]\n${candidate.slice(0, this.maxChars)}`).join('\n\n');
+    const { raw, parsed } = await judge.invoke([new SystemMessage(JUDGE_PROMPT), new HumanMessage(`问题：${query}\n\n候选文档：\n${content}`)], {
+      ...(context.signal && { signal: context.signal }),
+    });
+    await UsageService.record(
+      { userId: context.userId, conversationId: context.conversationId ?? null, model: profile.model, profile: profile.name },
+      isAIMessage(raw) ? raw.usage_metadata : undefined
+    );
+    const result: z.infer<typeof judgeSchema> | undefined = parsed;
+    if (!result) {
+      throw new Error('模型未返回评分结果');
+    }
+
+    const scores = candidates.map(() => 0);
+    result.scores.forEach(({ index, score }) => {
+      if (index >= 1 && index <= candidates.length) {
+        scores[index - 1] = Math.min(1, Math.max(0, score / 10));
+      }
+    });
+    return scores;
+  }
+}
+
+/**
+ * @description: 根据配置创建默认重排序器，未启用时返回 undefined
+ * @param {boolean} enabled 是否启用，默认读取 RAG_RERANK
+ * @return {Reranker | undefined}
+ */
+export const createDefaultReranker = (enabled: boolean = RAG_CONFIG.rerank): Reranker | undefined => {
+  if (!enabled) return undefined;
+  return new LLMReranker(RAG_CONFIG.rerankProfile ? { profile: RAG_CONFIG.rerankProfile } : {});
+};
+
+export default LLMReranker;
@@ -0,0 +1,147 @@
+/**
+ * 结构化输出 Schema 模块
+ * 统一 zod 与 JSON Schema 两种结构定义，提供校验与注册表
+ */
+import { z } from 'zod';
+import { toJsonSchema, Validator, type JSONSchema } from '@langchain/core/utils/json_schema';
+import type { OutputSchema, SchemaValidationResult } from '../../types/structured.types.js';
+
+type ValidatorSchema = ConstructorParameters<typeof Validator>[0];
+type SchemaDraft = NonNullable<ConstructorParameters<typeof Validator>[1]>;
+
+// 仅表示子结构不匹配的包装错误，具体原因会在更深层的错误中给出
+const WRAPPER_KEYWORDS = new Set(['properties', 'items', 'prefixItems', 'allOf', '$ref']);
+
+/**
+ * @description: 根据 $schema 推断 JSON Schema 版本，未声明时按 draft-07 处理
+ */
+const detectDraft = (schema: Record<string, unknown>): SchemaDraft => {
+  const uri = typeof schema.$schema === 'string' ? schema.$schema : '';
+  if (uri.includes('2020-12')) return '2020-12';
+  if (uri.includes('2019-09')) return '2019-09';
+  if (uri.includes('draft-04')) return '4';
+  return '7';
+};
+
+/**
+ * @description: 由 zod schema 创建输出结构，校验时应用 zod 的默认值与类型转换
+ * @param {string} name 结构名称
+ * @param {z.ZodType} schema zod schema
+ * @param {string} description 结构说明
+ */
+export const fromZodSchema = (name: string, schema: z.ZodType, description?: string): OutputSchema => ({
+  name,
+  ...(description && { description }),
+  jsonSchema: toJsonSchema(schema),
+  validate: (value: unknown): SchemaValidationResult => {
+    const result = schema.safeParse(value);
+    if (result.success) return { success: true, data: result.data };
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`),
+    };
+  },
+});
+
+/**
+ * @description: 由调用方提供的 JSON Schema 创建输出结构
+ * @param {string} name 结构名称
+ * @param {Record<string, unknown>} schema JSON Schema 对象
+ * @param {string} description 结构说明，未传入时使用 schema 中的 description
+ */
+export const fromJSONSchema = (name: string, schema: Record<string, unknown>, description?: string): OutputSchema => {
+  const validator = new Validator(schema as ValidatorSchema, detectDraft(schema), false);
+  const schemaDescription = description ?? (typeof schema.description === 'string' ? schema.description : undefined);
+  return {
+    name,
+    ...(schemaDescription && { description: schemaDescription }),
+    jsonSchema: schema as JSONSchema,
+    validate: (value: unknown): SchemaValidationResult => {
+      const result = validator.validate(value);
+      if (result.valid) return { success: true, data: value };
+      const errors = result.errors.filter((error) => !WRAPPER_KEYWORDS.has(error.keyword));
+      return {
+        success: false,
+        errors: (errors.length ? errors : result.errors).map((error) => `${error.instanceLocation}: ${error.error}`),
+      };
+    },
+  };
+};
+
+export class SchemaRegistry {
+  private readonly schemas = new Map<string, OutputSchema>();
+
+  /**
+   * @description: 注册 zod schema，同名结构会被覆盖
+   * @param {string} name 结构名称
+   * @param {z.ZodType} schema zod schema
+   * @param {string} description 结构说明
+   */
+  register(name: string, schema: z.ZodType, description?: string): void {
+    this.schemas.set(name, fromZodSchema(name, schema, description));
+  }
+
+  /**
+   * @description: 是否存在指定名称的结构
+   * @param {string} name
+   */
+  has(name: string): boolean {
+    return this.schemas.has(name);
+  }
+
+  /**
+   * @description: 获取结构
+   * @param {string} name
+   */
+  get(name: string): OutputSchema | undefined {
+    return this.schemas.get(name);
+  }
+
+  /**
+   * @description: 列出全部结构
+   * @return {OutputSchema[]}
+   */
+  list(): OutputSchema[] {
+    return [...this.schemas.values()];
+  }
+}
+
+export const schemaRegistry = new SchemaRegistry();
+
+schemaRegistry.register(
+  'summary',
+  z.object({
+    title: z.string().describe('标题'),
+    summary: z.string().describe('不超过 200 字的摘要'),
+    keywords: z.array(z.string()).describe('关键词列表'),
+  }),
+  '提取文本的标题、摘要与关键词'
+);
+
+schemaRegistry.register(
+  'sentiment',
+  z.object({
+    sentiment: z.enum(['positive', 'neutral', 'negative']).describe('情感倾向'),
+    confidence: z.number().min(0).max(1).describe('置信度，0 到 1 之间'),
+    reasons: z.array(z.string()).describe('判断依据'),
+  }),
+  '分析文本的情感倾向'
+);
+
+schemaRegistry.register(
+  'entities',
+  z.object({
+    entities: z
+      .array(
+        z.object({
+          name: z.string().describe('实体名称'),
+          type: z.enum(['person', 'organization', 'location', 'product', 'other']).describe('实体类型'),
+          description: z.string().optional().describe('实体说明'),
+        })
+      )
+      .describe('文本中出现的实体'),
+  }),
+  '抽取文本中的人物、组织、地点、产品等实体'
+);
+
+export default schemaRegistry;
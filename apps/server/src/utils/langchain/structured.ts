@@ -0,0 +1,135 @@
+/**
+ * 结构化输出模块
+ * 借助模型的结构化输出能力生成 JSON，按 Schema 校验，失败时携带校验错误重试
+ */
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import type { ChatGeneration, ChatGenerationChunk, LLMResult } from '@langchain/core/outputs';
+import type { ChatOptions, LLM, PreparedMessages } from './llm.js';
+import { STRUCTURED_OUTPUT_CONFIG } from '../../config/index.js';
+import { addTokenUsage, toTokenUsage } from '../mongodb/usage.js';
+import { SSE_TYPE_ENUMS, type StructuredOutputEvent } from '../../types/sse.types.js';
+import type { OutputSchema, StructuredResult } from '../../types/structured.types.js';
+import type { TokenUsage } from '../../types/usage.types.js';
+
+/**
+ * 结构化输出配置接口
+ */
+export interface StructuredOutputConfig {
+  /** 生成结构化数据的模型 */
+  llm: LLM;
+  /** 目标结构 */
+  schema: OutputSchema;
+  /** 校验失败后的最大重试次数 */
+  maxRetries?: number;
+}
+
+/**
+ * @description: 构造重试提示，将校验错误交给模型修正
+ */
+const buildRetryMessage = (errors: string[]): HumanMessage =>
+  new HumanMessage(
+    `上一次输出未通过 JSON Schema 校验，错误如下：\n${errors.map((error) => `- ${error}`).join('\n')}\n请修正以上问题后重新输出完整的结果。`
+  );
+
+export class StructuredOutput {
+  private readonly llm: LLM;
+  private readonly schema: OutputSchema;
+  private readonly maxRetries: number;
+
+  constructor(config: StructuredOutputConfig) {
+    this.llm = config.llm;
+    this.schema = config.schema;
+    this.maxRetries = config.maxRetries ?? STRUCTURED_OUTPUT_CONFIG.maxRetries;
+  }
+
+  /**
+   * 流式生成结构化数据
+   * @param message 用户消息
+   * @param options 对话选项（系统提示词、历史消息、中止信号）
+   * @returns 异步生成器，依次返回部分 JSON、校验失败与最终结果事件，生成器的返回值为最终结果
+   */
+  async *stream(message: string, options: ChatOptions = {}): AsyncGenerator<StructuredOutputEvent, StructuredResult, unknown> {
+    const prepared = await this.llm.getMessages(message, options);
+    return yield* this.streamMessages(prepared, options.signal);
+  }
+
+  /**
+   * 使用已构造好的消息列表流式生成结构化数据，适用于需要先获取检索来源的场景
+   * @param prepared 消息列表与检索来源，通常来自 LLM.getMessages
+   * @param signal 中止信号
+   * @returns 异步生成器，生成器的返回值为最终结果；中止时返回未经校验的部分对象与已产生的用量
+   */
+  async *streamMessages(prepared: PreparedMessages, signal?: AbortSignal): AsyncGenerator<StructuredOutputEvent, StructuredResult, unknown> {
+    const { name, description, jsonSchema } = this.schema;
+    const runnable = this.llm.getChatModel().withStructuredOutput({ ...(description && { description }), ...jsonSchema }, { name });
+    // 重试时会追加消息，复制一份避免修改调用方的列表
+    const messages = [...prepared.messages];
+    const { sources, queries } = prepared;
+    let usage: TokenUsage | null = null;
+    // 当前尝试最近一个数据块携带的用量，尝试结束前中止时仍可记录
+    let pendingUsage: TokenUsage | null = null;
+    // 结构化输出链只返回解析后的对象，用量从模型回调中获取
+    const callbacks = [
+      {
+        handleLLMNewToken: (_token: string, _idx: unknown, _runId: string, _parentRunId?: string, _tags?: string[], fields?: { chunk?: unknown }) => {
+          const chunk = fields?.chunk as ChatGenerationChunk | undefined;
+          pendingUsage = toTokenUsage((chunk?.message as AIMessage | undefined)?.usage_metadata) ?? pendingUsage;
+        },
+        handleLLMEnd: (output: LLMResult) => {
+          const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+          usage = addTokenUsage(usage, toTokenUsage((generation?.message as AIMessage | undefined)?.usage_metadata));
+          pendingUsage = null;
+        },
+      },
+    ];
+
+    let errors: string[] = [];
+    for (let attempt = 1; attempt <= this.maxRetries + 1; attempt++) {
+      let output: unknown;
+      try {
+        const stream = await runnable.stream(messages, { callbacks, ...(signal && { signal }) });
+        for await (const partial of stream) {
+          output = partial;
+          yield { type: SSE_TYPE_ENUMS.JSON_PARTIAL, attempt, data: partial };
+        }
+      } catch (error) {
+        if (!signal?.aborted) throw error;
+        // 客户端断开导致的中止不视为错误，返回部分对象与已产生的用量，由调用方保存
+        return { data: output, attempts: attempt, usage: addTokenUsage(usage, pendingUsage), sources, queries, truncated: true };
+      }
+
+      const result = output === undefined ? { success: false as const, errors: ['模型未返回结构化结果'] } : this.schema.validate(output);
+      if (result.success) {
+        yield { type: SSE_TYPE_ENUMS.JSON, attempts: attempt, data: result.data };
+        return { data: result.data, attempts: attempt, usage, sources, queries, truncated: false };
+      }
+
+      errors = result.errors;
+      console.warn(`[Structured] 第 ${attempt} 次输出未通过 ${name} 校验:`, errors);
+      yield { type: SSE_TYPE_ENUMS.JSON_INVALID, attempt, errors };
+      messages.push(new AIMessage(JSON.stringify(output ?? null)), buildRetryMessage(errors));
+    }
+
+    throw new Error(`结构化输出未通过校验（已尝试 ${this.maxRetries + 1} 次）：${errors.join('; ')}`);
+  }
+
+  /**
+   * 非流式生成结构化数据
+   * @param message 用户消息
+   * @param options 对话选项（系统提示词、历史消息、中止信号）
+   * @returns 校验通过的结果
+   */
+  async invoke(message: string, options: ChatOptions = {}): Promise<StructuredResult> {
+    const stream = this.stream(message, options);
+    let step = await stream.next();
+    while (!step.done) {
+      step = await stream.next();
+    }
+    if (step.value.truncated) {
+      throw new Error('结构化输出已中止');
+    }
+    return step.value;
+  }
+}
+
+export default StructuredOutput;
@@ -0,0 +1,100 @@
+/**
+ * Agent 工具注册表
+ * 统一管理可供模型调用的工具，按名称选择
+ */
+import { tool, type StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { evaluateExpression } from '../tools/calculator.js';
+
+/**
+ * 数学计算工具
+ */
+const calculatorTool = tool(
+  async ({ expression }) => {
+    const result = evaluateExpression(expression);
+    return `计算结果：${expression} = ${result}`;
+  },
+  {
+    name: 'calculator',
+    description: '用于执行数学计算，支持 + - * / % ^ 和括号，输入必须是合法的数学表达式',
+    schema: z.object({
+      expression: z.string().describe('数学表达式，例如 (1 + 2) * 3'),
+    }),
+  }
+);
+
+/**
+ * 当前时间工具
+ */
+const currentTimeTool = tool(
+  async ({ timeZone }) => {
+    const zone = timeZone || 'Asia/Shanghai';
+    return new Intl.DateTimeFormat('zh-CN', { dateStyle: 'full', timeStyle: 'long', timeZone: zone }).format(new Date());
+  },
+  {
+    name: 'current_time',
+    description: '查询当前日期和时间，可指定 IANA 时区，例如 Asia/Shanghai',
+    schema: z.object({
+      timeZone: z.string().optional().describe('IANA 时区名称，默认 Asia/Shanghai'),
+    }),
+  }
+);
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, StructuredToolInterface>();
+
+  constructor(tools: StructuredToolInterface[] = []) {
+    tools.forEach((item) => this.register(item));
+  }
+
+  /**
+   * @description: 注册工具，同名工具会被覆盖
+   * @param {StructuredToolInterface} item
+   */
+  register(item: StructuredToolInterface): void {
+    this.tools.set(item.name, item);
+  }
+
+  /**
+   * @description: 是否存在指定名称的工具
+   * @param {string} name
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * @description: 获取工具
+   * @param {string} name
+   */
+  get(name: string): StructuredToolInterface | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * @description: 按名称选择工具，不传名称时返回全部工具
+   * @param {string[]} names
+   * @return {StructuredToolInterface[]}
+   */
+  resolve(names?: string[]): StructuredToolInterface[] {
+    if (!names) return this.list();
+    return names.map((name) => {
+      const item = this.tools.get(name);
+      if (!item) {
+        throw new Error(`Tool not found: ${name}`);
+      }
+      return item;
+    });
+  }
+
+  /**
+   * @description: 列出全部工具
+   * @return {StructuredToolInterface[]}
+   */
+  list(): StructuredToolInterface[] {
+    return [...this.tools.values()];
+  }
+}
+
+export const toolRegistry = new ToolRegistry([calculatorTool, currentTimeTool]);
+export default toolRegistry;
@@ -0,0 +1,65 @@
+/**
+ * 向量库工厂
+ * 根据配置创建 MongoDB、Chroma 或内存向量库，RAG 与知识库导入共用同一个实例
+ */
+import { MongodbVectorTool } from '../mongodb/vector.js';
+import { ChromaToolbox } from './chroma.js';
+import { MemoryVectorTool } from './memoryVector.js';
+import { createDefaultEmbeddings } from './embeddings.js';
+import { VECTOR_STORE_CONFIG } from '../../config/index.js';
+import type { VectorBackend, VectorStoreTool } from '../../types/vector.types.js';
+
+/**
+ * @description 向量库选项，未指定时读取环境变量
+ * @param  collectionName - 集合名称
+ * @param  embeddingModel - Embedding 模型
+ * @param  embeddingDimensions - 向量维度，MongoDB 后端用于创建向量索引
+ */
+export interface VectorStoreOptions {
+  collectionName?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+}
+
+/**
+ * @description: 创建指定后端的向量库
+ * @param {VectorBackend} backend 后端类型，默认读取 VECTOR_STORE_BACKEND
+ * @param {VectorStoreOptions} options 集合名称与 Embedding 模型
+ * @return {VectorStoreTool}
+ */
+export const createVectorStore = (backend: VectorBackend = VECTOR_STORE_CONFIG.backend, options: VectorStoreOptions = {}): VectorStoreTool => {
+  const { collectionName, embeddingModel, embeddingDimensions } = options;
+  switch (backend) {
+    case 'mongodb':
+      return new MongodbVectorTool({
+        ...(collectionName && { collectionName }),
+        ...(embeddingModel && { embeddings: createDefaultEmbeddings(embeddingModel) }),
+        ...(embeddingDimensions && { numDimensions: embeddingDimensions }),
+      });
+    case 'chroma':
+      return ChromaToolbox.fromEnv({
+        ...(collectionName && { collectionName }),
+        ...(embeddingModel && { embeddings: createDefaultEmbeddings(embeddingModel) }),
+      });
+    case 'memory':
+      // 内存后端不依赖 MongoDB，不使用 Embedding 缓存；每个实例即一个独立集合
+      return new MemoryVectorTool(embeddingModel ? { embeddings: createDefaultEmbeddings(embeddingModel, false) } : {});
+    default:
+      throw new Error(`不支持的向量库后端: ${String(backend)}`);
+  }
+};
+
+const vectorStoreInstance = (function () {
+  let instance: VectorStoreTool;
+  return {
+    getInstance: function () {
+      if (!instance) {
+        instance = createVectorStore();
+      }
+      return instance;
+    },
+  };
+})();
+
+export { vectorStoreInstance };
+export default vectorStoreInstance;
@@ -1,5 +1,6 @@
 import { MongoDBChatMessageHistory } from '@langchain/mongodb';
 import MongoDBUtil from './index.js';
+import { createDefaultHistoryMemory } from '../langchain/historySummary.js';
 import { MongoServerError, type Collection, type Document } from 'mongodb';
 import {
   AIMessage,
@@ -11,6 +12,7 @@ import {
   coerceMessageLikeToMessage,
   getBufferString,
 } from '@langchain/core/messages';
+import { resolveSummaryEnd, summaryUpdateFilter } from '../tools/history.js';
 
 // 定义排序顺序类型，用于指定升序或降序
 type SortOrder = 'asc' | 'desc';
@@ -21,6 +23,42 @@ export interface MongoChatHistoryOptions {
   collectionName?: string;
   // 会话TTL（生存时间）秒数，用于设置会话过期时间
   sessionTTLSeconds?: number;
+  // 对话记忆策略，未设置时对话携带完整历史
+  memory?: HistoryMemoryOptions;
+}
+
+// 对话摘要生成器接口
+export interface HistorySummarizer {
+  // 将新增的消息合并进已有摘要，返回合并后的摘要；sessionId 用于记录摘要调用的用量
+  summarize(previous: string, messages: BaseMessage[], sessionId: string): Promise<string>;
+}
+
+// 对话记忆选项接口
+export interface HistoryMemoryOptions {
+  // 原样保留的最近对话轮数
+  recentTurns: number;
+  // 未摘要消息的估算token数超过此值时更新摘要
+  tokenThreshold: number;
+  // 摘要生成器
+  summarizer: HistorySummarizer;
+}
+
+// 对话摘要接口，保存在会话文档的summary字段
+export interface HistorySummary {
+  // 摘要内容
+  content: string;
+  // 已并入摘要的消息数量（从会话第一条消息起计）
+  summarizedCount: number;
+  // 摘要更新时间
+  updatedAt: Date;
+}
+
+// 对话上下文接口
+export interface ContextMessages {
+  // 较早对话的摘要，尚未生成时为 null
+  summary: string | null;
+  // 尚未并入摘要的消息
+  messages: BaseMessage[];
 }
 
 // 列出会话的选项接口
@@ -73,6 +111,8 @@ class MongoChatHistoryTool {
   private readonly histories = new Map<string, MongoDBChatMessageHistory>();
   // 索引是否已准备好的标志
   private indexesReady = false;
+  // 正在更新摘要的会话，同一会话同时只有一个更新任务
+  private readonly pendingSummaries = new Map<string, Promise<void>>();
 
   /**
    * 构造函数
@@ -194,8 +234,20 @@ class MongoChatHistoryTool {
    * @param message 要添加的消息
    */
   async appendMessage(sessionId: string, message: BaseMessageLike): Promise<void> {
+    await this.writeMessage(sessionId, message);
+    this.scheduleSummaryRefresh(sessionId);
+  }
+
+  /**
+   * 写入单条消息并更新会话信息
+   * @param sessionId 会话ID
+   * @param message 要添加的消息
+   */
+  private async writeMessage(sessionId: string, message: BaseMessageLike): Promise<void> {
     const history = await this.getHistory(sessionId);
     const normalized = coerceMessageLikeToMessage(message);
+    // 记录消息写入时间，已有时间戳的消息保持不变
+    normalized.additional_kwargs = { createdAt: new Date().toISOString(), ...normalized.additional_kwargs };
     await history.addMessage(normalized);
     await this.touchSession(sessionId);
   }
@@ -234,8 +286,9 @@ class MongoChatHistoryTool {
    */
   async appendMessages(sessionId: string, messages: BaseMessageLike[]): Promise<void> {
     for (const message of messages) {
-      await this.appendMessage(sessionId, message);
+      await this.writeMessage(sessionId, message);
     }
+    this.scheduleSummaryRefresh(sessionId);
   }
 
   /**
@@ -256,6 +309,89 @@ class MongoChatHistoryTool {
     return ordered.slice(Math.max(0, ordered.length - options.limit));
   }
 
+  /**
+   * 获取指定会话的摘要
+   * @param sessionId 会话ID
+   * @returns 会话不存在或尚未生成摘要时返回 null
+   */
+  async getSummary(sessionId: string): Promise<HistorySummary | null> {
+    await this.ensureInitialized();
+    if (!this.collection) {
+      return null;
+    }
+    const document = await this.collection.findOne({ sessionId }, { projection: { _id: 0, summary: 1 } });
+    return (document?.summary as HistorySummary | undefined) ?? null;
+  }
+
+  /**
+   * 获取用于对话的上下文
+   * 启用记忆策略时返回摘要与尚未并入摘要的消息，否则返回完整历史；摘要由调用方并入系统提示词
+   * @param sessionId 会话ID
+   */
+  async getContextMessages(sessionId: string): Promise<ContextMessages> {
+    if (!this.options.memory) {
+      return { summary: null, messages: await this.getMessages(sessionId) };
+    }
+    const [messages, summary] = await Promise.all([this.getMessages(sessionId), this.getSummary(sessionId)]);
+    if (!summary) {
+      return { summary: null, messages };
+    }
+    return { summary: summary.content, messages: messages.slice(summary.summarizedCount) };
+  }
+
+  /**
+   * 更新指定会话的摘要
+   * 未摘要消息的估算token数超过阈值时，将最近若干轮之前的消息并入摘要；轮数不足时按token从最早的消息起并入
+   * @param sessionId 会话ID
+   * @returns 摘要是否已更新
+   */
+  async refreshSummary(sessionId: string): Promise<boolean> {
+    const memory = this.options.memory;
+    if (!memory) {
+      return false;
+    }
+    const [messages, summary] = await Promise.all([this.getMessages(sessionId), this.getSummary(sessionId)]);
+    const start = Math.min(summary?.summarizedCount ?? 0, messages.length);
+    const count = resolveSummaryEnd(messages.slice(start), memory.recentTurns, memory.tokenThreshold);
+    if (count === 0) {
+      return false;
+    }
+    const end = start + count;
+    const content = await memory.summarizer.summarize(summary?.content ?? '', messages.slice(start, end), sessionId);
+    if (!this.collection) {
+      return false;
+    }
+    // 摘要生成期间会话可能被清空或由其他任务更新，仅在摘要进度未变化时写入
+    const result = await this.collection.updateOne(summaryUpdateFilter(sessionId, summary?.summarizedCount, end), {
+      $set: { summary: { content, summarizedCount: end, updatedAt: new Date() } },
+    });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * 在后台更新会话摘要，不阻塞消息写入
+   * 失败时仅记录警告，下次写入消息时重试
+   * @param sessionId 会话ID
+   */
+  private scheduleSummaryRefresh(sessionId: string): void {
+    if (!this.options.memory || this.pendingSummaries.has(sessionId)) {
+      return;
+    }
+    const task = this.refreshSummary(sessionId)
+      .then((updated) => {
+        if (updated) {
+          console.log(`[ChatHistory] 会话 ${sessionId} 的摘要已更新`);
+        }
+      })
+      .catch((error) => {
+        console.warn(`[ChatHistory] 会话 ${sessionId} 的摘要更新失败:`, error);
+      })
+      .finally(() => {
+        this.pendingSummaries.delete(sessionId);
+      });
+    this.pendingSummaries.set(sessionId, task);
+  }
+
   /**
    * 将指定会话的消息转换为缓冲字符串
    * @param sessionId 会话ID
@@ -324,16 +460,56 @@ class MongoChatHistoryTool {
     this.histories.delete(sessionId);
   }
 
+  /**
+   * 统计会话数量
+   * @param sessionIds 特定会话ID列表，如果指定则只统计这些会话
+   */
+  async countSessions(sessionIds?: string[]): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.collection) {
+      return 0;
+    }
+    return this.collection.countDocuments(sessionIds?.length ? { sessionId: { $in: sessionIds } } : {});
+  }
+
+  /**
+   * 获取单个会话摘要
+   * @param sessionId 会话ID
+   * @returns 会话不存在时返回 null
+   */
+  async getSession(sessionId: string): Promise<ChatSessionSummary | null> {
+    const [summary] = await this.listSessions({ sessionIds: [sessionId], limit: 1 });
+    return summary ?? null;
+  }
+
   /**
    * 清空指定会话的消息
+   * 保留会话本身，移除其中的消息与摘要
    * @param sessionId 会话ID
    */
   async clear(sessionId: string): Promise<void> {
-    const history = await this.getHistory(sessionId);
-    await history.clear();
+    await this.ensureInitialized();
+    if (!this.collection) {
+      return;
+    }
+    await this.collection.updateOne({ sessionId }, { $set: { messages: [], messageCount: 0, updatedAt: new Date() }, $unset: { summary: '' } });
     this.histories.delete(sessionId);
   }
 }
 
-export { MongoChatHistoryTool };
+// 延迟创建单例，避免与 ./index.js 的循环依赖在模块加载阶段触发初始化
+const chatHistoryInstance = (function () {
+  let instance: MongoChatHistoryTool;
+  return {
+    getInstance: function () {
+      if (!instance) {
+        const memory = createDefaultHistoryMemory();
+        instance = new MongoChatHistoryTool(memory ? { memory } : {});
+      }
+      return instance;
+    },
+  };
+})();
+
+export { MongoChatHistoryTool, chatHistoryInstance };
 export default MongoChatHistoryTool;
@@ -0,0 +1,166 @@
+import { createHash } from 'node:crypto';
+import { Embeddings, type EmbeddingsInterface } from '@langchain/core/embeddings';
+import type { Collection } from 'mongodb';
+import MongoDBUtil from './index.js';
+import { EMBEDDING_CACHE_CONFIG } from '../../config/index.js';
+import type { EmbeddingCacheStats } from '../../types/vector.types.js';
+
+export interface MongoEmbeddingCacheConfig {
+  /** 被缓存的 Embeddings 实例 */
+  embeddings: EmbeddingsInterface;
+  /** 模型名称，作为缓存键的一部分，不同模型的向量互不复用 */
+  model: string;
+  /** 缓存集合名称，默认读取 EMBEDDING_CACHE_COLLECTION */
+  collectionName?: string;
+}
+
+// 缓存文档，_id 为 `${model}:${hash}`
+interface EmbeddingCacheDocument {
+  _id: string;
+  model: string;
+  hash: string;
+  embedding: number[];
+  createdAt: Date;
+}
+
+/**
+ * MongoDB Embedding 缓存：以模型名 + 文本 SHA-256 为键持久化文档向量，
+ * 相同文本重复导入或重建索引时直接读取缓存，只有未命中的文本才调用模型。
+ * 查询向量不经过缓存，避免用户的每次提问都永久写入缓存集合。
+ * 缓存读写失败时直接调用模型，不影响导入与检索。
+ */
+export class MongoEmbeddingCache extends Embeddings {
+  /** 各模型的命中统计，同一模型的多个实例共用 */
+  private static readonly stats = new Map<string, { hits: number; misses: number }>();
+  readonly model: string;
+  private readonly embeddings: EmbeddingsInterface;
+  private readonly collectionName: string;
+  private readonly mongo: MongoDBUtil;
+  private collection: Collection<EmbeddingCacheDocument> | null = null;
+
+  constructor(config: MongoEmbeddingCacheConfig) {
+    super({});
+    this.embeddings = config.embeddings;
+    this.model = config.model;
+    this.collectionName = config.collectionName ?? EMBEDDING_CACHE_CONFIG.collectionName;
+    this.mongo = MongoDBUtil.getInstance();
+  }
+
+  /**
+   * @description: 获取各模型的缓存命中统计
+   * @return {EmbeddingCacheStats[]}
+   */
+  static getStats(): EmbeddingCacheStats[] {
+    return [...MongoEmbeddingCache.stats.entries()].map(([model, { hits, misses }]) => ({
+      model,
+      hits,
+      misses,
+      hitRate: hits + misses ? hits / (hits + misses) : 0,
+    }));
+  }
+
+  /**
+   * @description: 计算文档向量，命中情况输出到日志
+   * @param {string[]} texts
+   * @return {Promise<number[][]>}
+   */
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+    const { vectors, hits, misses } = await this.embed(texts);
+    console.log(`[EmbeddingCache] ${this.model} 命中 ${hits} 个，未命中 ${misses} 个`);
+    return vectors;
+  }
+
+  /**
+   * @description: 计算查询向量，直接调用模型，不读写缓存
+   * @param {string} text
+   * @return {Promise<number[]>}
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text);
+  }
+
+  private async ensureInitialized(): Promise<Collection<EmbeddingCacheDocument>> {
+    if (!this.mongo.isConnected()) {
+      await this.mongo.connect();
+    }
+    if (!this.collection) {
+      this.collection = this.mongo.getCollection<EmbeddingCacheDocument>(this.collectionName);
+    }
+    return this.collection;
+  }
+
+  private createKey(text: string): { id: string; hash: string } {
+    const hash = createHash('sha256').update(text).digest('hex');
+    return { id: `${this.model}:${hash}`, hash };
+  }
+
+  private record(hits: number, misses: number): void {
+    const stats = MongoEmbeddingCache.stats.get(this.model) ?? { hits: 0, misses: 0 };
+    stats.hits += hits;
+    stats.misses += misses;
+    MongoEmbeddingCache.stats.set(this.model, stats);
+  }
+
+  /**
+   * @description: 先查缓存，未命中的文本去重后批量调用模型并写回缓存
+   * @param {string[]} texts
+   * @return {Promise<{ vectors: number[][]; hits: number; misses: number }>} 同一批次内重复的文本只计一次未命中；模型返回的向量缺失时抛出
+   */
+  private async embed(texts: string[]): Promise<{ vectors: number[][]; hits: number; misses: number }> {
+    const keys = texts.map((text) => ({ text, ...this.createKey(text) }));
+    const cached = new Map<string, number[]>();
+    let collection: Collection<EmbeddingCacheDocument> | null = null;
+    try {
+      collection = await this.ensureInitialized();
+      const documents = await collection.find({ _id: { $in: [...new Set(keys.map(({ id }) => id))] } }).toArray();
+      documents.forEach((document) => cached.set(document._id, document.embedding));
+    } catch (error) {
+      console.warn('[EmbeddingCache] 读取缓存失败，直接调用模型:', error);
+    }
+
+    const missing = new Map(keys.filter(({ id }) => !cached.has(id)).map((key) => [key.id, key]));
+    if (missing.size) {
+      const entries = [...missing.values()];
+      const vectors = await this.embeddings.embedDocuments(entries.map(({ text }) => text));
+      entries.forEach(({ id }, index) => {
+        const vector = vectors[index];
+        // 缺失的向量不能写入缓存或向量库，否则该文本之后一直命中空向量
+        if (!vector?.length) {
+          throw new Error(`Embedding 模型未返回第 ${index + 1} 个文本的向量（共 ${entries.length} 个）`);
+        }
+        cached.set(id, vector);
+      });
+      if (collection) {
+        const createdAt = new Date();
+        try {
+          await collection.bulkWrite(
+            entries.map(({ id, hash }) => ({
+              updateOne: {
+                filter: { _id: id },
+                update: { $setOnInsert: { model: this.model, hash, embedding: cached.get(id) ?? [], createdAt } },
+                upsert: true,
+              },
+            })),
+            { ordered: false }
+          );
+        } catch (error) {
+          console.warn('[EmbeddingCache] 写入缓存失败:', error);
+        }
+      }
+    }
+
+    const hits = texts.length - missing.size;
+    this.record(hits, missing.size);
+    const vectors = keys.map(({ id }) => {
+      const vector = cached.get(id);
+      if (!vector) {
+        throw new Error(`Embedding 缓存缺少向量：${id}`);
+      }
+      return vector;
+    });
+    return { vectors, hits, misses: missing.size };
+  }
+}
+
+export default MongoEmbeddingCache;
@@ -0,0 +1,146 @@
+import { ObjectId, type Collection, type Document, type WithId } from 'mongodb';
+import MongoDBUtil from './index.js';
+import { KNOWLEDGE_BASE_CONFIG } from '../../config/index.js';
+import type { KnowledgeBase } from '../../types/knowledgeBase.types.js';
+
+// 知识库存储选项接口
+export interface MongoKnowledgeBaseOptions {
+  // 可选的集合名称，默认为'knowledge_bases'
+  collectionName?: string;
+}
+
+// 默认集合名称常量
+const DEFAULT_COLLECTION_NAME = 'knowledge_bases';
+
+// 非法的 ObjectId 视为不存在
+const toObjectId = (id: string): ObjectId | null => (ObjectId.isValid(id) ? new ObjectId(id) : null);
+
+const toKnowledgeBase = ({ _id, ...document }: WithId<Document>): KnowledgeBase => ({ ...(document as Omit<KnowledgeBase, 'id'>), id: String(_id) });
+
+/**
+ * MongoDB 知识库存储工具类
+ * 保存知识库的配置，所有查询都按团队ID隔离
+ */
+class MongoKnowledgeBaseTool {
+  // 工具配置选项
+  private readonly options: MongoKnowledgeBaseOptions;
+  // MongoDB工具实例
+  private readonly mongo: MongoDBUtil;
+  // MongoDB集合实例
+  private collection: Collection<Document> | null = null;
+  // 索引是否已准备好的标志
+  private indexesReady = false;
+
+  constructor(options: MongoKnowledgeBaseOptions = {}) {
+    this.options = options;
+    this.mongo = MongoDBUtil.getInstance();
+  }
+
+  /**
+   * 获取集合名称
+   * 优先级：选项中指定 > 环境变量 > 默认值
+   */
+  private get collectionName(): string {
+    return this.options.collectionName ?? process.env.MONGODB_DB_KNOWLEDGE_BASE_COLLECTION_NAME ?? DEFAULT_COLLECTION_NAME;
+  }
+
+  /**
+   * 确保初始化完成
+   * 连接数据库并设置集合和索引，同一团队内名称唯一
+   */
+  private async ensureInitialized(): Promise<Collection<Document>> {
+    if (!this.mongo.isConnected()) {
+      await this.mongo.connect();
+    }
+    if (!this.collection) {
+      this.collection = this.mongo.getCollection<Document>(this.collectionName);
+    }
+    if (!this.indexesReady) {
+      await this.collection.createIndex({ teamId: 1, name: 1 }, { unique: true });
+      this.indexesReady = true;
+    }
+    return this.collection;
+  }
+
+  /**
+   * 创建知识库，向量集合名称由知识库ID生成
+   * @param data 知识库配置
+   * @returns 创建的知识库
+   */
+  async create(data: Omit<KnowledgeBase, 'id' | 'collectionName' | 'createdAt' | 'updatedAt'>): Promise<KnowledgeBase> {
+    const collection = await this.ensureInitialized();
+    const _id = new ObjectId();
+    const now = new Date();
+    const document = { ...data, collectionName: `${KNOWLEDGE_BASE_CONFIG.collectionPrefix}${_id.toHexString()}`, createdAt: now, updatedAt: now };
+    await collection.insertOne({ _id, ...document });
+    return { ...document, id: _id.toHexString() };
+  }
+
+  /**
+   * 列出团队的知识库
+   * @param teamId 团队ID
+   */
+  async list(teamId: string): Promise<KnowledgeBase[]> {
+    const collection = await this.ensureInitialized();
+    const documents = await collection.find({ teamId }).sort({ createdAt: 1 }).toArray();
+    return documents.map(toKnowledgeBase);
+  }
+
+  /**
+   * 获取团队的知识库，其他团队的知识库视为不存在
+   * @param teamId 团队ID
+   * @param id 知识库ID
+   */
+  async findById(teamId: string, id: string): Promise<KnowledgeBase | null> {
+    const _id = toObjectId(id);
+    if (!_id) return null;
+    const collection = await this.ensureInitialized();
+    const document = await collection.findOne({ _id, teamId });
+    return document ? toKnowledgeBase(document) : null;
+  }
+
+  /**
+   * 更新知识库
+   * @param teamId 团队ID
+   * @param id 知识库ID
+   * @param update 要更新的字段
+   * @returns 更新后的知识库，不存在时返回 null
+   */
+  async update(teamId: string, id: string, update: Partial<Omit<KnowledgeBase, 'id' | 'teamId'>>): Promise<KnowledgeBase | null> {
+    const _id = toObjectId(id);
+    if (!_id) return null;
+    const collection = await this.ensureInitialized();
+    const document = await collection.findOneAndUpdate({ _id, teamId }, { $set: { ...update, updatedAt: new Date() } }, { returnDocument: 'after' });
+    return document ? toKnowledgeBase(document) : null;
+  }
+
+  /**
+   * 删除知识库配置（不包括向量集合）
+   * @param teamId 团队ID
+   * @param id 知识库ID
+   * @returns 是否删除成功
+   */
+  async delete(teamId: string, id: string): Promise<boolean> {
+    const _id = toObjectId(id);
+    if (!_id) return false;
+    const collection = await this.ensureInitialized();
+    const result = await collection.deleteOne({ _id, teamId });
+    return result.deletedCount > 0;
+  }
+}
+
+// 延迟创建单例，避免与 ./index.js 的循环依赖在模块加载阶段触发初始化
+const knowledgeBaseInstance = (function () {
+  let instance: MongoKnowledgeBaseTool;
+  return {
+    getInstance: function () {
+      if (!instance) {
+        instance = new MongoKnowledgeBaseTool();
+      }
+      return instance;
+    },
+  };
+})();
+
+export { MongoKnowledgeBaseTool, knowledgeBaseInstance };
+export default MongoKnowledgeBaseTool;
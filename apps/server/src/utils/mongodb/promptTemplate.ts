@@ -0,0 +1,146 @@
+import { ObjectId, type Collection, type Document, type WithId } from 'mongodb';
+import MongoDBUtil from './index.js';
+import type { PromptTemplate, PromptTemplateSummary } from '../../types/promptTemplate.types.js';
+
+// 提示词模板存储选项接口
+export interface MongoPromptTemplateOptions {
+  // 可选的集合名称，默认为'prompt_templates'
+  collectionName?: string;
+}
+
+// 默认集合名称常量
+const DEFAULT_COLLECTION_NAME = 'prompt_templates';
+
+// 每个名称的最新版本及版本数量
+interface LatestVersionGroup {
+  latest: WithId<Document>;
+  versions: number;
+}
+
+const toPromptTemplate = ({ _id, ...document }: WithId<Document>): PromptTemplate => ({
+  ...(document as Omit<PromptTemplate, 'id'>),
+  id: String(_id),
+});
+
+/**
+ * MongoDB 提示词模板存储工具类
+ * 每个版本保存为一条记录，版本创建后不再修改
+ */
+class MongoPromptTemplateTool {
+  // 工具配置选项
+  private readonly options: MongoPromptTemplateOptions;
+  // MongoDB工具实例
+  private readonly mongo: MongoDBUtil;
+  // MongoDB集合实例
+  private collection: Collection<Document> | null = null;
+  // 索引是否已准备好的标志
+  private indexesReady = false;
+
+  constructor(options: MongoPromptTemplateOptions = {}) {
+    this.options = options;
+    this.mongo = MongoDBUtil.getInstance();
+  }
+
+  /**
+   * 获取集合名称
+   * 优先级：选项中指定 > 环境变量 > 默认值
+   */
+  private get collectionName(): string {
+    return this.options.collectionName ?? process.env.MONGODB_DB_PROMPT_TEMPLATE_COLLECTION_NAME ?? DEFAULT_COLLECTION_NAME;
+  }
+
+  /**
+   * 确保初始化完成
+   * 连接数据库并设置集合和索引，同一名称的版本号唯一（并发创建同一版本时只有一个成功）
+   */
+  private async ensureInitialized(): Promise<Collection<Document>> {
+    if (!this.mongo.isConnected()) {
+      await this.mongo.connect();
+    }
+    if (!this.collection) {
+      this.collection = this.mongo.getCollection<Document>(this.collectionName);
+    }
+    if (!this.indexesReady) {
+      await this.collection.createIndex({ name: 1, version: -1 }, { unique: true });
+      this.indexesReady = true;
+    }
+    return this.collection;
+  }
+
+  /**
+   * 写入一个版本
+   * @param data 版本内容
+   * @returns 写入的版本
+   */
+  async insert(data: Omit<PromptTemplate, 'id' | 'createdAt'>): Promise<PromptTemplate> {
+    const collection = await this.ensureInitialized();
+    const _id = new ObjectId();
+    const document = { ...data, createdAt: new Date() };
+    await collection.insertOne({ _id, ...document });
+    return { ...document, id: _id.toHexString() };
+  }
+
+  /**
+   * 列出每个模板的最新版本
+   */
+  async listLatest(): Promise<PromptTemplateSummary[]> {
+    const collection = await this.ensureInitialized();
+    const groups = await collection
+      .aggregate<LatestVersionGroup>([
+        { $sort: { name: 1, version: -1 } },
+        { $group: { _id: '$name', latest: { $first: '$$ROOT' }, versions: { $sum: 1 } } },
+        { $sort: { _id: 1 } },
+      ])
+      .toArray();
+    return groups.map(({ latest, versions }) => ({ ...toPromptTemplate(latest), versions }));
+  }
+
+  /**
+   * 获取模板的指定版本，未指定版本时返回最新版本
+   * @param name 模板名称
+   * @param version 版本号
+   */
+  async find(name: string, version?: number): Promise<PromptTemplate | null> {
+    const collection = await this.ensureInitialized();
+    const document =
+      version === undefined ? await collection.findOne({ name }, { sort: { version: -1 } }) : await collection.findOne({ name, version });
+    return document ? toPromptTemplate(document) : null;
+  }
+
+  /**
+   * 列出模板的全部版本，按版本号从新到旧排序
+   * @param name 模板名称
+   */
+  async listVersions(name: string): Promise<PromptTemplate[]> {
+    const collection = await this.ensureInitialized();
+    const documents = await collection.find({ name }).sort({ version: -1 }).toArray();
+    return documents.map(toPromptTemplate);
+  }
+
+  /**
+   * 删除模板的全部版本
+   * @param name 模板名称
+   * @returns 删除的版本数量
+   */
+  async deleteAll(name: string): Promise<number> {
+    const collection = await this.ensureInitialized();
+    const result = await collection.deleteMany({ name });
+    return result.deletedCount;
+  }
+}
+
+// 延迟创建单例，避免与 ./index.js 的循环依赖在模块加载阶段触发初始化
+const promptTemplateInstance = (function () {
+  let instance: MongoPromptTemplateTool;
+  return {
+    getInstance: function () {
+      if (!instance) {
+        instance = new MongoPromptTemplateTool();
+      }
+      return instance;
+    },
+  };
+})();
+
+export { MongoPromptTemplateTool, promptTemplateInstance };
+export default MongoPromptTemplateTool;
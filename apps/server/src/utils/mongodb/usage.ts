@@ -0,0 +1,199 @@
+import type { Collection, Document } from 'mongodb';
+import type { UsageMetadata } from '@langchain/core/messages';
+import MongoDBUtil from './index.js';
+import { USAGE_CONFIG } from '../../config/index.js';
+import type { TokenUsage, UsageGroupBy, UsageRecord, UsageSummary } from '../../types/usage.types.js';
+
+// 用量记录选项接口
+export interface MongoUsageOptions {
+  // 可选的集合名称，默认为'llm_usage'
+  collectionName?: string;
+}
+
+// 用量统计查询选项接口
+export interface UsageQueryOptions {
+  // 分组维度，默认按天和模型分组
+  groupBy?: UsageGroupBy[];
+  // 起始时间（包含）
+  from?: Date;
+  // 结束时间（不包含）
+  to?: Date;
+  // 只统计指定用户
+  userId?: string;
+  // 只统计指定会话
+  conversationId?: string;
+}
+
+// 默认集合名称常量
+const DEFAULT_COLLECTION_NAME = 'llm_usage';
+
+/**
+ * 将 LangChain 的用量元数据转换为统一的 token 用量
+ * @param usage LangChain 用量元数据
+ */
+export const toTokenUsage = (usage?: UsageMetadata): TokenUsage | null => {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.input_tokens ?? 0,
+    completionTokens: usage.output_tokens ?? 0,
+    reasoningTokens: usage.output_token_details?.reasoning ?? 0,
+    totalTokens: usage.total_tokens ?? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0),
+  };
+};
+
+/**
+ * 累加 token 用量
+ * @param a 已累计的用量
+ * @param b 新增用量
+ */
+export const addTokenUsage = (a: TokenUsage | null, b: TokenUsage | null): TokenUsage | null => {
+  if (!a || !b) return a ?? b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+};
+
+/**
+ * 按价格表计算费用，思考 token 已包含在输出 token 中
+ * @param model 模型名称
+ * @param usage token 用量
+ * @returns 未配置价格的模型返回 0
+ */
+export const calculateCost = (model: string, usage: TokenUsage): number => {
+  const price = USAGE_CONFIG.prices[model];
+  if (!price) return 0;
+  const cost = (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+  return Number(cost.toFixed(6));
+};
+
+/**
+ * MongoDB 用量记录工具类
+ * 按用户、会话和模型记录每次 LLM 调用的 token 用量与费用，并提供聚合统计
+ */
+class MongoUsageTool {
+  // 工具配置选项
+  private readonly options: MongoUsageOptions;
+  // MongoDB工具实例
+  private readonly mongo: MongoDBUtil;
+  // MongoDB集合实例
+  private collection: Collection<Document> | null = null;
+  // 索引是否已准备好的标志
+  private indexesReady = false;
+
+  constructor(options: MongoUsageOptions = {}) {
+    this.options = options;
+    this.mongo = MongoDBUtil.getInstance();
+  }
+
+  /**
+   * 获取集合名称
+   * 优先级：选项中指定 > 环境变量 > 默认值
+   */
+  private get collectionName(): string {
+    return this.options.collectionName ?? process.env.MONGODB_DB_USAGE_COLLECTION_NAME ?? DEFAULT_COLLECTION_NAME;
+  }
+
+  /**
+   * 确保初始化完成
+   * 连接数据库并设置集合和索引
+   */
+  private async ensureInitialized(): Promise<Collection<Document>> {
+    if (!this.mongo.isConnected()) {
+      await this.mongo.connect();
+    }
+    if (!this.collection) {
+      this.collection = this.mongo.getCollection<Document>(this.collectionName);
+    }
+    if (!this.indexesReady) {
+      await this.collection.createIndex({ createdAt: 1 });
+      await this.collection.createIndex({ userId: 1, createdAt: 1 });
+      this.indexesReady = true;
+    }
+    return this.collection;
+  }
+
+  /**
+   * 记录一次调用的用量
+   * @param entry 调用信息与 token 用量
+   * @returns 写入的记录
+   */
+  async record(entry: Omit<UsageRecord, 'cost' | 'currency' | 'createdAt'>): Promise<UsageRecord> {
+    const collection = await this.ensureInitialized();
+    const record: UsageRecord = {
+      ...entry,
+      cost: calculateCost(entry.model, entry),
+      currency: USAGE_CONFIG.currency,
+      createdAt: new Date(),
+    };
+    await collection.insertOne({ ...record });
+    return record;
+  }
+
+  /**
+   * 聚合统计用量与费用
+   * @param options 查询选项
+   */
+  async aggregate(options: UsageQueryOptions = {}): Promise<UsageSummary[]> {
+    const collection = await this.ensureInitialized();
+    const { groupBy = ['day', 'model'], from, to, userId, conversationId } = options;
+
+    const match: Document = {};
+    if (userId) match.userId = userId;
+    if (conversationId) match.conversationId = conversationId;
+    if (from || to) {
+      match.createdAt = { ...(from && { $gte: from }), ...(to && { $lt: to }) };
+    }
+
+    const groupId: Document = {};
+    if (groupBy.includes('day')) groupId.day = { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } };
+    if (groupBy.includes('model')) groupId.model = '$model';
+
+    const rows = await collection
+      .aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: groupId,
+            promptTokens: { $sum: '$promptTokens' },
+            completionTokens: { $sum: '$completionTokens' },
+            reasoningTokens: { $sum: '$reasoningTokens' },
+            totalTokens: { $sum: '$totalTokens' },
+            cost: { $sum: '$cost' },
+            calls: { $sum: 1 },
+          },
+        },
+        { $sort: { '_id.day': 1, '_id.model': 1 } },
+      ])
+      .toArray();
+
+    return rows.map(({ _id, ...summary }) => ({
+      ...(_id?.day && { day: _id.day as string }),
+      ...(_id?.model && { model: _id.model as string }),
+      promptTokens: summary.promptTokens as number,
+      completionTokens: summary.completionTokens as number,
+      reasoningTokens: summary.reasoningTokens as number,
+      totalTokens: summary.totalTokens as number,
+      cost: Number((summary.cost as number).toFixed(6)),
+      calls: summary.calls as number,
+    }));
+  }
+}
+
+// 延迟创建单例，避免与 ./index.js 的循环依赖在模块加载阶段触发初始化
+const usageInstance = (function () {
+  let instance: MongoUsageTool;
+  return {
+    getInstance: function () {
+      if (!instance) {
+        instance = new MongoUsageTool();
+      }
+      return instance;
+    },
+  };
+})();
+
+export { MongoUsageTool, usageInstance };
+export default MongoUsageTool;
@@ -1,43 +1,116 @@
-import { OllamaEmbeddings } from '@langchain/ollama';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
 import MongoDBUtil from './index.js';
 import 'dotenv/config';
-import type { Collection, Filter } from 'mongodb';
+import { ObjectId, type Collection, type Filter } from 'mongodb';
 import { MongoDBAtlasVectorSearch } from '@langchain/mongodb';
 import { Document, type DocumentInterface } from '@langchain/core/documents';
+import { normalizeScore } from '../tools/score.js';
+import { createDefaultEmbeddings } from '../langchain/embeddings.js';
+import { VECTOR_STORE_CONFIG } from '../../config/index.js';
+import type {
+  DistanceMetric,
+  ScoreDirection,
+  SourceSummary,
+  VectorDeleteParams,
+  VectorFilter,
+  VectorGetParams,
+  VectorStoreTool,
+} from '../../types/vector.types.js';
 
 export interface MongodbToolConfig {
   /** 指定集合名称，不同 collection 互相隔离 */
   collectionName?: string;
-  /** 自定义 Embeddings 实例，默认走 Ollama */
-  embeddings?: OllamaEmbeddings;
+  /** 自定义 Embeddings 实例，默认走带 MongoDB 缓存的 Ollama */
+  embeddings?: EmbeddingsInterface;
   /** 默认检索条数 */
   defaultK?: number;
   /** Chroma 服务地址，优先使用 URL */
   url?: string;
   /** 本地持久化目录（与 url 二选一） */
   persistDirectory?: string;
+  /** 向量索引使用的相似度度量，需与 Atlas 索引定义一致，默认 cosine */
+  distanceMetric?: DistanceMetric;
+  /** 向量维度，用于创建 Atlas 向量索引，需与 Embedding 模型一致 */
+  numDimensions?: number;
 }
-export class MongodbVectorTool {
+
+// Atlas 向量索引中的字段定义
+interface VectorIndexField {
+  type: string;
+  path: string;
+  numDimensions?: number;
+  similarity?: string;
+}
+
+// 按来源聚合的结果
+interface SourceGroup {
+  _id: string;
+  chunks: number;
+  uploadedAt: string | null;
+}
+
+/**
+ * @description: 生成 Atlas 向量索引定义，预过滤字段需在索引中声明
+ * @param {number} numDimensions 向量维度，需与 Embedding 模型一致
+ */
+export const createVectorIndexDefinition = (numDimensions = 768) => ({
+  fields: [
+    {
+      type: 'vector',
+      numDimensions,
+      path: 'embedding',
+      similarity: 'cosine',
+    },
+    ...VECTOR_STORE_CONFIG.filterFields.map((path) => ({ type: 'filter', path })),
+  ],
+});
+
+/**
+ * @description: 生成 Atlas Search 全文索引定义，lucene.cjk 分析器对中日韩文本按相邻两字切分，英文按词切分
+ */
+export const createTextIndexDefinition = () => ({
+  mappings: {
+    dynamic: false,
+    fields: {
+      text: { type: 'string', analyzer: 'lucene.cjk', searchAnalyzer: 'lucene.cjk' },
+    },
+  },
+});
+
+// Atlas 向量索引与全文索引名称
+const VECTOR_INDEX_NAME = 'vector_index';
+const TEXT_INDEX_NAME = 'text_search_index';
+
+// 空过滤条件视为不过滤
+const toPreFilter = (filter?: VectorFilter) => (filter && Object.keys(filter).length ? { preFilter: filter } : undefined);
+
+// 24 位十六进制字符串视为 ObjectId，其余按字符串ID处理
+const toDocumentId = (id: string): ObjectId | string => (/^[0-9a-f]{24}$/i.test(id) ? new ObjectId(id) : id);
+
+export class MongodbVectorTool implements VectorStoreTool {
+  readonly backend = 'mongodb';
+  /** 原始得分方向：Atlas 的 vectorSearchScore 越大越相似 */
+  readonly scoreDirection: ScoreDirection = 'similarity';
+  /** 相似度度量方式 */
+  readonly distanceMetric: DistanceMetric;
   private readonly config: MongodbToolConfig;
   private readonly defaultK: number;
   /** 实际使用的 Embeddings 实例 */
-  private readonly embeddings: OllamaEmbeddings;
+  private readonly embeddings: EmbeddingsInterface;
   /** mongodb 实例 */
   private readonly mongoClient: MongoDBUtil;
   /** 集合 */
   private collection: Collection | null = null;
   /** 向量存储 */
   private vectorStore: MongoDBAtlasVectorSearch | null = null;
+  /** 创建索引的任务，多次调用共用同一个任务，失败后允许重试 */
+  private indexesTask: Promise<void> | null = null;
 
   constructor(config: MongodbToolConfig) {
     this.config = config;
     this.defaultK = config.defaultK ?? 4;
-    this.embeddings =
-      config.embeddings ??
-      new OllamaEmbeddings({
-        model: process.env.OLLAMA_EMBED_MODEL ?? 'nomic-embed-text:latest',
-        baseUrl: process.env.OLLAMA_BASE_URL ?? 'http://localhost:11434',
-      });
+    this.distanceMetric = config.distanceMetric ?? 'cosine';
+    this.embeddings = config.embeddings ?? createDefaultEmbeddings();
     this.mongoClient = MongoDBUtil.getInstance();
   }
 
@@ -59,7 +132,7 @@ export class MongodbVectorTool {
     this.vectorStore = new MongoDBAtlasVectorSearch(this.embeddings, {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       collection: this.collection as any,
-      indexName: 'vector_index',
+      indexName: VECTOR_INDEX_NAME,
       textKey: 'text',
       embeddingKey: 'embedding',
     });
@@ -67,31 +140,65 @@ export class MongodbVectorTool {
   getCollection() {
     return this.collection;
   }
-  static async initSearchIndex(
-    collection: Collection | null,
-    definition = {
-      fields: [
-        {
-          type: 'vector',
-          numDimensions: 768,
-          path: 'embedding',
-          similarity: 'cosine',
-        },
-      ],
-    }
-  ) {
+  /**
+   * @description: 创建 Atlas 向量索引；索引已存在但缺少声明的过滤字段时补充这些字段，保留原有的向量字段定义
+   * @param {Collection | null} collection
+   * @param definition 索引定义
+   */
+  static async initSearchIndex(collection: Collection | null, definition = createVectorIndexDefinition()) {
     if (collection) {
-      const indexes = await collection.listSearchIndexes('vector_index').toArray();
-      if (indexes.length === 0) {
+      const [existing] = await collection.listSearchIndexes(VECTOR_INDEX_NAME).toArray();
+      if (!existing) {
         const index = {
-          name: 'vector_index',
+          name: VECTOR_INDEX_NAME,
           type: 'vectorSearch',
           definition: definition,
         };
-        collection.createSearchIndex(index);
+        await collection.createSearchIndex(index);
+        return;
+      }
+      const { latestDefinition } = existing as { latestDefinition?: { fields?: VectorIndexField[] } };
+      const fields = latestDefinition?.fields ?? [];
+      const missing = definition.fields.filter(
+        ({ type, path }) => type === 'filter' && !fields.some((field) => field.type === 'filter' && field.path === path)
+      );
+      if (missing.length) {
+        console.log(`[Vector] 集合 ${collection.collectionName} 的向量索引补充过滤字段: ${missing.map(({ path }) => path).join(', ')}`);
+        await collection.updateSearchIndex(VECTOR_INDEX_NAME, { fields: [...fields, ...missing] });
+      }
+    }
+  }
+  /**
+   * @description: 创建 Atlas Search 全文索引，供关键词检索使用；使用 CJK 分析器，中文内容也能按词命中
+   * @param {Collection | null} collection
+   */
+  static async initTextIndex(collection: Collection | null) {
+    if (collection) {
+      const indexes = await collection.listSearchIndexes(TEXT_INDEX_NAME).toArray();
+      if (indexes.length === 0) {
+        await collection.createSearchIndex({ name: TEXT_INDEX_NAME, type: 'search', definition: createTextIndexDefinition() });
       }
     }
   }
+  /**
+   * @description: 创建全文索引与向量索引（幂等），集合删除后需重新创建
+   * @return {Promise<void>}
+   */
+  async ensureIndexes(): Promise<void> {
+    if (!this.indexesTask) {
+      this.indexesTask = (async () => {
+        await this.ensureInitialized();
+        // 按来源管理分块的普通索引，创建时会同时创建集合，Atlas Search 索引要求集合已存在
+        await this.collection?.createIndex({ source: 1 });
+        await MongodbVectorTool.initTextIndex(this.collection);
+        await MongodbVectorTool.initSearchIndex(this.collection, createVectorIndexDefinition(this.config.numDimensions));
+      })().catch((error: unknown) => {
+        this.indexesTask = null;
+        throw error;
+      });
+    }
+    return this.indexesTask;
+  }
   /**
    * 确保向量工具已初始化
    * @returns Promise<void>
@@ -122,26 +229,30 @@ export class MongodbVectorTool {
     );
   }
   /**
-   * @description: 添加文档
+   * @description: 添加文档，文档都带 id 时以 id 作为 _id 覆盖写入；索引不存在（如集合删除后）时先创建索引
    * @param {Document[]} documents
-   * @return {Promise<void>}
+   * @return {Promise<string[]>} 写入的文档ID
    */
-  async addDocuments(documents: Document[]): Promise<void> {
-    if (!documents.length) return;
+  async addDocuments(documents: Document[]): Promise<string[]> {
+    if (!documents.length) return [];
+    // 索引创建失败（如非 Atlas 部署）不影响写入，下次写入时重试
+    await this.ensureIndexes().catch((error: unknown) => console.warn('[Vector] 创建索引失败:', error));
     await this.ensureInitialized();
     if (!this.vectorStore) {
       throw new Error('Vector store not initialized');
     }
-    await this.vectorStore.addDocuments(documents);
+    const options = documents.every((doc) => doc.id) ? { ids: documents.map((doc) => String(doc.id)) } : undefined;
+    const ids: unknown[] = await this.vectorStore.addDocuments(documents, options);
+    return ids.map((id) => String(id));
   }
 
   /**
    * @description: 添加文本
    * @param {string[]} texts
    * @param {Record<string, unknown>[]} metadatas
-   * @return {Promise<void>}
+   * @return {Promise<string[]>}
    */
-  async addTexts(texts: string[], metadatas?: Record<string, unknown>[]): Promise<void> {
+  async addTexts(texts: string[], metadatas?: Record<string, unknown>[]): Promise<string[]> {
     const documents = texts.map(
       (text, index) =>
         new Document({
@@ -149,53 +260,194 @@ export class MongodbVectorTool {
           metadata: metadatas?.[index] ?? {},
         })
     );
-    await this.addDocuments(documents);
+    return this.addDocuments(documents);
   }
 
   /**
    * @description: 相似度检索
    * @param {string} query
    * @param {number} k
+   * @param {VectorFilter} filter 元数据过滤条件，字段需在向量索引中声明为 filter
    * @return {Promise<DocumentInterface[]>}
    */
-  async similaritySearch(query: string, k: number = this.defaultK): Promise<DocumentInterface[]> {
+  async similaritySearch(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<DocumentInterface[]> {
+    const results = await this.similaritySearchWithScore(query, k, filter);
+    return results.map(([doc]) => doc);
+  }
+
+  /**
+   * @description: 相似度检索并返回得分
+   * @param {string} query
+   * @param {number} k
+   * @param {VectorFilter} filter 元数据过滤条件，字段需在向量索引中声明为 filter
+   * @return {Promise<[DocumentInterface, number][]>} 得分已归一化到 0-1，越大越相似，按得分从高到低排序
+   */
+  async similaritySearchWithScore(query: string, k: number = this.defaultK, filter?: VectorFilter): Promise<[DocumentInterface, number][]> {
     await this.ensureInitialized();
     if (!this.vectorStore) {
       throw new Error('Vector store not initialized');
     }
-    return this.vectorStore.similaritySearch(query, k);
+    const results = await this.vectorStore.similaritySearchWithScore(query, k, toPreFilter(filter));
+    // 将 _id 提取为文档ID，并将返回结果按照得分排序
+    return results
+      .map(([doc, score]): [DocumentInterface, number] => {
+        const { _id, ...metadata } = doc.metadata;
+        const document = new Document({ pageContent: doc.pageContent, metadata, ...(_id !== undefined && { id: String(_id) }) });
+        return [document, normalizeScore(score, this.scoreDirection, this.distanceMetric)];
+      })
+      .sort(([, a], [, b]) => b - a);
   }
 
   /**
-   * @description: 相似度检索并返回得分
+   * @description: 基于 Atlas Search 全文索引的关键词检索（BM25），索引由 ensureIndexes 创建
    * @param {string} query
    * @param {number} k
-   * @return {Promise<[DocumentInterface, number][]>}
+   * @param {VectorFilter} filter 元数据过滤条件，在全文检索之后过滤
+   * @return {Promise<[DocumentInterface, number][]>} 按 searchScore 从高到低排序
    */
-  async similaritySearchWithScore(query: string, k: number = this.defaultK): Promise<[DocumentInterface, number][]> {
+  async keywordSearch(query: string, k: number = this.defaultK, filter: VectorFilter = {}): Promise<[DocumentInterface, number][]> {
     await this.ensureInitialized();
-    if (!this.vectorStore) {
-      throw new Error('Vector store not initialized');
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
     }
-    // 将返回结果按照得分排序
+    const results = await this.collection
+      .aggregate([
+        { $search: { index: TEXT_INDEX_NAME, text: { query, path: 'text' } } },
+        ...(Object.keys(filter).length ? [{ $match: filter }] : []),
+        { $limit: k },
+        { $project: { embedding: 0, score: { $meta: 'searchScore' } } },
+      ])
+      .toArray();
+    return results.map(({ _id, text, score, ...metadata }): [DocumentInterface, number] => [
+      new Document({ id: String(_id), pageContent: String(text ?? ''), metadata }),
+      Number(score),
+    ]);
+  }
 
-    return this.vectorStore.similaritySearchWithScore(query, k);
+  /**
+   * @description: 按ID或元数据删除文档，同时提供时需两者都满足
+   * @param {VectorDeleteParams} params
+   * @return {Promise<number>} 删除数量
+   */
+  async delete(params: VectorDeleteParams): Promise<number> {
+    const { ids, filter } = params;
+    if (!ids && !filter) {
+      throw new Error('删除文档需要提供 ids 或 filter');
+    }
+    await this.ensureInitialized();
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    const query: Record<string, unknown> = { ...filter };
+    if (ids) query._id = { $in: ids.map(toDocumentId) };
+    const result = await this.collection.deleteMany(query);
+    return result.deletedCount;
   }
 
   /**
-   * @description: 删除集合
-   * @return {Promise<void>}
+   * @description: 统计文档数量
+   * @param {VectorFilter} filter
+   * @return {Promise<number>}
+   */
+  async count(filter: VectorFilter = {}): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    return this.collection.countDocuments(filter);
+  }
+
+  /**
+   * @description: 列出满足条件的文档ID
+   * @param {VectorFilter} filter
+   * @return {Promise<string[]>}
    */
-  async deleteCollection(query: Filter<Document>): Promise<void> {
+  async listIds(filter: VectorFilter = {}): Promise<string[]> {
+    await this.ensureInitialized();
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    const results = await this.collection.find(filter, { projection: { _id: 1 } }).toArray();
+    return results.map(({ _id }) => String(_id));
+  }
+
+  /**
+   * @description: 按ID或元数据读取文档，不返回向量字段
+   * @param {VectorGetParams} params
+   * @return {Promise<DocumentInterface[]>}
+   */
+  async getDocuments(params: VectorGetParams = {}): Promise<DocumentInterface[]> {
+    const { ids, filter } = params;
+    await this.ensureInitialized();
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    const query: Record<string, unknown> = { ...filter };
+    if (ids) query._id = { $in: ids.map(toDocumentId) };
+    const results = await this.collection.find(query, { projection: { embedding: 0 } }).toArray();
+    return results.map(({ _id, text, ...metadata }) => new Document({ id: String(_id), pageContent: String(text ?? ''), metadata }));
+  }
+
+  /**
+   * @description: 按来源聚合统计分块
+   * @return {Promise<SourceSummary[]>}
+   */
+  async listSources(): Promise<SourceSummary[]> {
+    await this.ensureInitialized();
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    const results = await this.collection
+      .aggregate<SourceGroup>([
+        { $match: { source: { $type: 'string' } } },
+        { $group: { _id: '$source', chunks: { $sum: 1 }, uploadedAt: { $max: '$uploadedAt' } } },
+        { $sort: { _id: 1 } },
+      ])
+      .toArray();
+    return results.map(({ _id, chunks, uploadedAt }) => ({ source: _id, chunks, uploadedAt: uploadedAt ?? null }));
+  }
+
+  /**
+   * @description: 按条件删除单个文档
+   * @param {Filter<Document>} query
+   * @return {Promise<number>} 删除数量
+   */
+  async deleteOne(query: Filter<Document>): Promise<number> {
     await this.ensureInitialized();
     if (!this.mongoClient) {
       throw new Error('MongoDBUtil not initialized');
     }
     try {
-      await this.mongoClient.deleteOne(this.config.collectionName || process.env.MONGODB_DB_VECTOR_COLLECTION_NAME || 'vector_collection', query);
+      const result = await this.mongoClient.deleteOne(
+        this.config.collectionName || process.env.MONGODB_DB_VECTOR_COLLECTION_NAME || 'vector_collection',
+        query
+      );
+      return result.deletedCount;
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * @description: 删除集合，向量索引与全文索引随集合一起删除，下次写入时重新创建
+   * @return {Promise<void>}
+   */
+  async dropCollection(): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.collection) {
+      throw new Error('Collection not initialized');
+    }
+    try {
+      await this.collection.drop();
     } catch (error) {
-      console.error('Error deleting collection:', error);
+      console.error('Error dropping collection:', error);
       throw error;
+    } finally {
+      // 下次访问时重新获取集合引用，下次写入时重新创建索引
+      this.collection = null;
+      this.vectorStore = null;
+      this.indexesTask = null;
     }
   }
 }
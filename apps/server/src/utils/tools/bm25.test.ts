@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { BM25Index, tokenize } from './bm25.js';
+
+describe('tokenize', () => {
+  it('英文按词切分并转为小写，标识符整体保留', () => {
+    expect(tokenize('Error E-1001 in v2.1 user_id')).toEqual(['error', 'e-1001', 'in', 'v2.1', 'user_id']);
+  });
+
+  it('中文按相邻两字切分，单字保留原字', () => {
+    expect(tokenize('退款流程')).toEqual(['退款', '款流', '流程']);
+    expect(tokenize('中 文')).toEqual(['中', '文']);
+  });
+
+  it('中英文混合时先列出英文词', () => {
+    expect(tokenize('Ollama默认端口')).toEqual(['ollama', '默认', '认端', '端口']);
+  });
+});
+
+describe('BM25Index', () => {
+  const createIndex = () => {
+    const index = new BM25Index();
+    index.add('refund', '退款流程：在订单页申请退款，三个工作日内到账');
+    index.add('port', 'Ollama 默认端口是 11434');
+    index.add('error', '错误码 E-1001 表示鉴权失败');
+    return index;
+  };
+
+  it('按得分从高到低返回命中的文档，不含未命中的文档', () => {
+    const results = createIndex().search('怎么申请退款', 10);
+    expect(results.map(({ id }) => id)).toEqual(['refund']);
+    expect(results[0]?.score).toBeGreaterThan(0);
+  });
+
+  it('精确匹配错误码等标识符', () => {
+    expect(createIndex().search('E-1001 是什么错误', 10)[0]?.id).toBe('error');
+  });
+
+  it('稀有词的权重高于常见词', () => {
+    const index = new BM25Index();
+    index.add('a', 'apple banana');
+    index.add('b', 'apple cherry');
+    index.add('c', 'apple');
+    const [first] = index.search('apple cherry', 3);
+    expect(first?.id).toBe('b');
+  });
+
+  it('同长度文档中词频越高得分越高', () => {
+    const index = new BM25Index();
+    index.add('once', 'cat dog bird fish');
+    index.add('twice', 'cat cat bird fish');
+    index.add('other', 'lion tiger bear wolf');
+    expect(index.search('cat', 3).map(({ id }) => id)).toEqual(['twice', 'once']);
+  });
+
+  it('限制返回数量并支持候选过滤', () => {
+    const index = createIndex();
+    expect(index.search('退款 端口 错误码', 1)).toHaveLength(1);
+    expect(index.search('退款 端口', 10, (id) => id !== 'refund').map(({ id }) => id)).toEqual(['port']);
+  });
+
+  it('替换与移除文档后同步更新索引', () => {
+    const index = createIndex();
+    index.add('port', '端口已改为 8080');
+    expect(index.size).toBe(3);
+    expect(index.search('11434', 10)).toEqual([]);
+    expect(index.search('8080', 10)[0]?.id).toBe('port');
+    index.remove('port');
+    index.remove('missing');
+    expect(index.size).toBe(2);
+    expect(index.search('8080', 10)).toEqual([]);
+  });
+
+  it('空查询或空索引返回空数组', () => {
+    expect(createIndex().search('   ', 10)).toEqual([]);
+    expect(new BM25Index().search('退款', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * BM25 关键词检索
+ * 进程内倒排索引，用于补充向量检索难以命中的产品名、错误码、标识符等精确词
+ */
+
+// 英文、数字及由 - _ . 连接的标识符（如 E-1001、v2.1、user_id）
+const WORD_PATTERN = /[a-z0-9]+(?:[-_.][a-z0-9]+)*/g;
+// 连续的中日韩字符
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]+/g;
+
+/**
+ * @description: 分词：英文与标识符按词切分，中文按相邻两字（bigram）切分，单字保留原字
+ * @param {string} text
+ * @return {string[]}
+ */
+export const tokenize = (text: string): string[] => {
+  const normalized = text.toLowerCase();
+  const tokens: string[] = normalized.match(WORD_PATTERN) ?? [];
+  for (const run of normalized.match(CJK_PATTERN) ?? []) {
+    const chars = [...run];
+    if (chars.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(`${chars[i]}${chars[i + 1]}`);
+    }
+  }
+  return tokens;
+};
+
+export interface BM25Options {
+  /** 词频饱和参数 */
+  k1?: number;
+  /** 文档长度归一化参数 */
+  b?: number;
+}
+
+interface IndexedDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export class BM25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  /** 文档ID -> 词频 */
+  private readonly documents = new Map<string, IndexedDocument>();
+  /** 词 -> 包含该词的文档数 */
+  private readonly documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * @description: 添加文档，同 ID 的文档会被替换
+   * @param {string} id
+   * @param {string} text
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    tokens.forEach((token) => termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1));
+    termFrequencies.forEach((_, term) => this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1));
+    this.documents.set(id, { termFrequencies, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * @description: 移除文档
+   * @param {string} id
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+    document.termFrequencies.forEach((_, term) => {
+      const frequency = (this.documentFrequencies.get(term) ?? 1) - 1;
+      if (frequency > 0) this.documentFrequencies.set(term, frequency);
+      else this.documentFrequencies.delete(term);
+    });
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * @description: 检索与查询最相关的文档
+   * @param {string} query
+   * @param {number} k 返回数量
+   * @param {(id: string) => boolean} predicate 候选文档过滤条件
+   * @return {{ id: string; score: number }[]} 按 BM25 得分从高到低排序，不含得分为 0 的文档
+   */
+  search(query: string, k: number, predicate?: (id: string) => boolean): { id: string; score: number }[] {
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length || !this.documents.size) return [];
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const results: { id: string; score: number }[] = [];
+
+    this.documents.forEach((document, id) => {
+      if (predicate && !predicate(id)) return;
+      let score = 0;
+      for (const term of terms) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) continue;
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += (idf * frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + (this.b * document.length) / averageLength));
+      }
+      if (score > 0) results.push({ id, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
+
+export default BM25Index;
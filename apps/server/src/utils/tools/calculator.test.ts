@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator.js';
+
+describe('evaluateExpression', () => {
+  it('按优先级计算四则运算与括号', () => {
+    expect(evaluateExpression('1 + 2 * 3')).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3')).toBe(9);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('7 % 4 / 2')).toBe(1.5);
+  });
+
+  it('乘方右结合且优先于一元负号', () => {
+    expect(evaluateExpression('-2^2')).toBe(-4);
+    expect(evaluateExpression('(-2)^2')).toBe(4);
+    expect(evaluateExpression('2^3^2')).toBe(512);
+    expect(evaluateExpression('2^-1')).toBe(0.5);
+    expect(evaluateExpression('2 ** 3')).toBe(8);
+    expect(evaluateExpression('3 * -2^2')).toBe(-12);
+  });
+
+  it('兼容全角符号与科学计数法', () => {
+    expect(evaluateExpression('6 × 7')).toBe(42);
+    expect(evaluateExpression('（8 ÷ 2）')).toBe(4);
+    expect(evaluateExpression('1.5e2 + .5')).toBe(150.5);
+  });
+
+  it('拒绝非法表达式', () => {
+    expect(() => evaluateExpression('')).toThrow('表达式为空');
+    expect(() => evaluateExpression('1 / 0')).toThrow('除数不能为 0');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('括号不匹配');
+    expect(() => evaluateExpression('1 + 2)')).toThrow('多余内容');
+    expect(() => evaluateExpression('process.exit()')).toThrow('非法字符');
+    expect(() => evaluateExpression('10 ^ 1000')).toThrow('超出范围');
+    expect(() => evaluateExpression('1+'.repeat(300))).toThrow('长度不能超过');
+  });
+});
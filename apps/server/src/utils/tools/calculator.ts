@@ -0,0 +1,161 @@
+/**
+ * 安全的四则运算求值器
+ * 使用递归下降解析表达式，只支持数字、+ - * / % ^ 与括号，不执行任何代码
+ *
+ * 语法：
+ *   expression = term { ("+" | "-") term }
+ *   term       = unary { ("*" | "/" | "%") unary }
+ *   unary      = ("+" | "-") unary | power
+ *   power      = primary [ "^" unary ]
+ *   primary    = number | "(" expression ")"
+ *
+ * 乘方优先于一元负号：-2^2 = -4，2^-1 = 0.5
+ */
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+type Token = { type: 'number'; value: number } | { type: 'operator'; value: string };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < input.length) {
+    const char = input.charAt(index);
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    const number = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(input.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+    if (input.startsWith('**', index)) {
+      tokens.push({ type: 'operator', value: '^' });
+      index += 2;
+      continue;
+    }
+    if ('+-*/%^()'.includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+      index += 1;
+      continue;
+    }
+    // 兼容全角符号
+    const fullWidth: Record<string, string> = { '×': '*', '÷': '/', '（': '(', '）': ')' };
+    if (fullWidth[char]) {
+      tokens.push({ type: 'operator', value: fullWidth[char] });
+      index += 1;
+      continue;
+    }
+    throw new Error(`非法字符 "${char}"（位置 ${index}）`);
+  }
+  return tokens;
+};
+
+class Parser {
+  private readonly tokens: Token[];
+  private position = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): number {
+    const value = this.expression();
+    if (this.position < this.tokens.length) {
+      throw new Error('表达式末尾存在多余内容');
+    }
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.position += 1;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expression(): number {
+    let value = this.term();
+    let operator: string | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      const right = this.term();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  private term(): number {
+    let value = this.unary();
+    let operator: string | null;
+    while ((operator = this.matchOperator('*', '/', '%'))) {
+      const right = this.unary();
+      if ((operator === '/' || operator === '%') && right === 0) {
+        throw new Error('除数不能为 0');
+      }
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  }
+
+  private unary(): number {
+    const operator = this.matchOperator('+', '-');
+    if (operator) {
+      const value = this.unary();
+      return operator === '-' ? -value : value;
+    }
+    return this.power();
+  }
+
+  private power(): number {
+    const base = this.primary();
+    // 乘方为右结合，指数可带符号
+    if (this.matchOperator('^')) {
+      return base ** this.unary();
+    }
+    return base;
+  }
+
+  private primary(): number {
+    const token = this.peek();
+    if (token?.type === 'number') {
+      this.position += 1;
+      return token.value;
+    }
+    if (this.matchOperator('(')) {
+      const value = this.expression();
+      if (!this.matchOperator(')')) {
+        throw new Error('括号不匹配');
+      }
+      return value;
+    }
+    throw new Error(token ? `意外的符号 "${token.value}"` : '表达式不完整');
+  }
+}
+
+/**
+ * 计算四则运算表达式
+ * @param expression 数学表达式，例如 "(1 + 2) * 3 ^ 2"
+ * @returns 计算结果
+ */
+export const evaluateExpression = (expression: string): number => {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`表达式长度不能超过 ${MAX_EXPRESSION_LENGTH} 个字符`);
+  }
+  const tokens = tokenize(expression);
+  if (!tokens.length) {
+    throw new Error('表达式为空');
+  }
+  const result = new Parser(tokens).parse();
+  if (!Number.isFinite(result)) {
+    throw new Error('计算结果超出范围');
+  }
+  return result;
+};
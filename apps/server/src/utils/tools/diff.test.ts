@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff.js';
+
+describe('diffLines', () => {
+  it('相同文本全部为 equal', () => {
+    expect(diffLines('a\nb', 'a\r\nb')).toEqual([
+      { op: 'equal', line: 'a' },
+      { op: 'equal', line: 'b' },
+    ]);
+  });
+
+  it('同一位置先列出删除的行再列出新增的行', () => {
+    expect(diffLines('你是助手\n回答要简洁\n使用中文', '你是助手\n回答要详细\n使用中文')).toEqual([
+      { op: 'equal', line: '你是助手' },
+      { op: 'removed', line: '回答要简洁' },
+      { op: 'added', line: '回答要详细' },
+      { op: 'equal', line: '使用中文' },
+    ]);
+  });
+
+  it('按最长公共子序列保留中间未变化的行', () => {
+    expect(diffLines('a\nb\nc\nd', 'x\nb\nd\ny')).toEqual([
+      { op: 'removed', line: 'a' },
+      { op: 'added', line: 'x' },
+      { op: 'equal', line: 'b' },
+      { op: 'removed', line: 'c' },
+      { op: 'equal', line: 'd' },
+      { op: 'added', line: 'y' },
+    ]);
+  });
+
+  it('首尾重复行不会重复计入', () => {
+    expect(diffLines('a\na', 'a\na\na')).toEqual([
+      { op: 'equal', line: 'a' },
+      { op: 'equal', line: 'a' },
+      { op: 'added', line: 'a' },
+    ]);
+  });
+
+  it('超大文本退化为整体替换，结果仍能还原新旧文本', () => {
+    const before = Array.from({ length: 3000 }, (_, index) => `old ${index}`);
+    const after = Array.from({ length: 3000 }, (_, index) => (index % 2 ? `old ${index}` : `new ${index}`));
+    const lines = diffLines(['header', ...before].join('\n'), ['header', ...after].join('\n'));
+    expect(lines[0]).toEqual({ op: 'equal', line: 'header' });
+    expect(lines.filter(({ op }) => op !== 'added').map(({ line }) => line)).toEqual(['header', ...before]);
+    expect(lines.filter(({ op }) => op !== 'removed').map(({ line }) => line)).toEqual(['header', ...after]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * 文本差异
+ * 基于最长公共子序列（LCS）的逐行对比，用于比较提示词模板的不同版本
+ */
+import type { DiffLine } from '../../types/promptTemplate.types.js';
+
+// LCS 表的最大单元格数（约 16MB），超出时不再求最小差异
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * @description: 对比去掉公共首尾后的中间部分；行数乘积超过上限时整体标记为删除与新增，避免占用过多内存
+ * @param {string[]} a 旧文本的行
+ * @param {string[]} b 新文本的行
+ * @return {DiffLine[]}
+ */
+const diffMiddle = (a: string[], b: string[]): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    a.forEach((line) => lines.push({ op: 'removed', line }));
+    b.forEach((line) => lines.push({ op: 'added', line }));
+    return lines;
+  }
+  const width = b.length + 1;
+  // lcs[i * width + j]：a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs = new Uint32Array((a.length + 1) * width);
+  const at = (i: number, j: number): number => lcs[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const line = a[i] ?? '';
+    if (line === b[j]) {
+      lines.push({ op: 'equal', line });
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      lines.push({ op: 'removed', line });
+      i++;
+    } else {
+      lines.push({ op: 'added', line: b[j] ?? '' });
+      j++;
+    }
+  }
+  a.slice(i).forEach((line) => lines.push({ op: 'removed', line }));
+  b.slice(j).forEach((line) => lines.push({ op: 'added', line }));
+  return lines;
+};
+
+/**
+ * @description: 逐行对比两段文本，公共的首尾行直接视为相同，只对中间部分求 LCS
+ * @param {string} before 旧文本
+ * @param {string} after 新文本
+ * @return {DiffLine[]} 按新旧文本顺序排列，同一位置先列出删除的行再列出新增的行
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const equal = (line: string): DiffLine => ({ op: 'equal', line });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...diffMiddle(a.slice(start, a.length - end), b.slice(start, b.length - end)),
+    ...a.slice(a.length - end).map(equal),
+  ];
+};
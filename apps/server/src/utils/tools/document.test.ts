@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { detectDocumentType, extractText, htmlToText, jsonToText } from './document.js';
+
+describe('htmlToText', () => {
+  it('去除脚本、样式、注释与标签，保留段落换行', () => {
+    const html = '<style>p{}</style><h1>标题</h1><!-- 注释 --><p>第一段<br>换行</p><script>alert(1)</script><div>第二段</div>';
+    expect(htmlToText(html)).toBe('标题\n\n第一段\n换行\n\n第二段');
+  });
+
+  it('解码命名实体与数字实体', () => {
+    expect(htmlToText('a &amp; b &lt;c&gt; &#20013;&#x6587; &unknown;')).toBe('a & b <c> 中文 &unknown;');
+  });
+
+  it('超出范围的数字实体替换为 U+FFFD 而不是抛出异常', () => {
+    expect(htmlToText('&#99999999;')).toBe('\uFFFD');
+    expect(htmlToText('&#x110000;')).toBe('\uFFFD');
+    expect(htmlToText('&#xD800;')).toBe('\uFFFD');
+    expect(htmlToText('&#0;')).toBe('\uFFFD');
+    expect(htmlToText('&#x10FFFF;')).toBe('\u{10FFFF}');
+  });
+});
+
+describe('jsonToText', () => {
+  it('数组元素单独成段', () => {
+    expect(jsonToText('["a", {"b": 1}]')).toBe('a\n\n{\n  "b": 1\n}');
+  });
+
+  it('非法 JSON 抛出 SyntaxError', () => {
+    expect(() => jsonToText('{')).toThrow(SyntaxError);
+  });
+});
+
+describe('detectDocumentType', () => {
+  it('优先使用扩展名，其次使用 MIME 类型', () => {
+    expect(detectDocumentType('a.MD', 'text/html')).toBe('markdown');
+    expect(detectDocumentType('upload', 'text/html; charset=utf-8')).toBe('html');
+    expect(detectDocumentType('a.pdf', 'application/pdf')).toBeNull();
+  });
+});
+
+describe('extractText', () => {
+  it('去除 BOM', () => {
+    expect(extractText(Buffer.from('\uFEFF正文 '), 'text')).toBe('正文');
+  });
+});
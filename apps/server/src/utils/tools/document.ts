@@ -0,0 +1,99 @@
+import type { DocumentType } from '../../types/knowledge.types.js';
+
+const EXTENSION_TYPES: Record<string, DocumentType> = {
+  txt: 'text',
+  text: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  htm: 'html',
+  html: 'html',
+  json: 'json',
+};
+
+const MIME_TYPES: Record<string, DocumentType> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/json': 'json',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * @description: 根据扩展名与 MIME 类型判断文档类型，优先使用扩展名
+ * @param {string} filename
+ * @param {string} mimetype
+ * @return {DocumentType | null} 不支持的类型返回 null
+ */
+export const detectDocumentType = (filename: string, mimetype: string): DocumentType | null => {
+  const extension = filename.includes('.') ? filename.slice(filename.lastIndexOf('.') + 1).toLowerCase() : '';
+  const mime = (mimetype.split(';')[0] ?? '').trim().toLowerCase();
+  return EXTENSION_TYPES[extension] ?? MIME_TYPES[mime] ?? null;
+};
+
+/**
+ * @description: 数字实体转为字符，与 HTML 规范一致，超出 Unicode 范围、代理区与 0 替换为 U+FFFD
+ * @param {number} codePoint
+ * @return {string}
+ */
+const fromCodePoint = (codePoint: number): string =>
+  codePoint > 0 && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff) ? String.fromCodePoint(codePoint) : '\uFFFD';
+
+/**
+ * @description: 提取 HTML 中的可见文本，保留段落换行
+ * @param {string} html
+ * @return {string}
+ */
+export const htmlToText = (html: string): string =>
+  html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) return fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return fromCodePoint(Number(code.slice(1)));
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * @description: 将 JSON 转为便于检索的文本，数组的每个元素单独成段
+ * @param {string} json
+ * @return {string}
+ */
+export const jsonToText = (json: string): string => {
+  const data: unknown = JSON.parse(json);
+  const items = Array.isArray(data) ? data : [data];
+  return items.map((item) => (typeof item === 'string' ? item : JSON.stringify(item, null, 2))).join('\n\n');
+};
+
+/**
+ * @description: 提取文件中的文本
+ * @param {Buffer} content 文件内容（UTF-8）
+ * @param {DocumentType} type 文档类型
+ * @return {string}
+ */
+export const extractText = (content: Buffer, type: DocumentType): string => {
+  const raw = content.toString('utf8').replace(/^\uFEFF/, '');
+  switch (type) {
+    case 'html':
+      return htmlToText(raw);
+    case 'json':
+      return jsonToText(raw);
+    default:
+      return raw.trim();
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { judgeCase, parseEvaluationDataset, summarizeEvaluation } from './evaluation.js';
+import type { EvaluationCase } from '../../types/evaluation.types.js';
+import type { RetrievedSource } from '../../types/rag.types.js';
+
+const source = (id: string, file: string, content: string, index = 1): RetrievedSource => ({
+  index,
+  id,
+  content,
+  metadata: { source: file },
+  score: 0.8,
+});
+
+describe('parseEvaluationDataset', () => {
+  it('解析 JSONL，忽略空行并对期望项去重', () => {
+    const cases = parseEvaluationDataset(
+      '{"id":"a","question":"退款多久到账？","expectedIds":["refund.md","refund.md"]}\n\n{"question":"怎么开票","expectedSnippets":["发票"]}'
+    );
+    expect(cases).toEqual([
+      { id: 'a', question: '退款多久到账？', expectedIds: ['refund.md'], expectedSnippets: [] },
+      { id: '3', question: '怎么开票', expectedIds: [], expectedSnippets: ['发票'] },
+    ]);
+  });
+
+  it('返回带行号的错误信息', () => {
+    expect(parseEvaluationDataset('{"question":"q","expectedIds":["a"]}\nnot json')).toBe('第 2 行: 不是合法的 JSON');
+    expect(parseEvaluationDataset([{ question: 'q' }])).toBe('第 1 行: expectedIds 与 expectedSnippets 至少提供一个');
+    expect(parseEvaluationDataset('')).toBe('评测集为空');
+  });
+});
+
+describe('judgeCase', () => {
+  it('按分块ID、来源文件名或内容片段判定相关，计算 recall 与名次', () => {
+    const testCase: EvaluationCase = { id: '1', question: 'q', expectedIds: ['refund.md'], expectedSnippets: ['3-5 个工作日'] };
+    const result = judgeCase(testCase, [source('x', 'other.md', '无关内容'), source('y', 'refund.md', '退款 3-5个工作日 到账', 2)]);
+    expect(result.matched).toEqual(['refund.md', '3-5 个工作日']);
+    expect(result.recall).toBe(1);
+    expect(result.firstRelevantRank).toBe(2);
+    expect(result.reciprocalRank).toBe(0.5);
+  });
+
+  it('同时出现在 expectedIds 与 expectedSnippets 中的期望项只计一次', () => {
+    const testCase: EvaluationCase = { id: '1', question: 'q', expectedIds: ['refund.md', 'invoice.md'], expectedSnippets: ['refund.md'] };
+    const result = judgeCase(testCase, [source('x', 'refund.md', '内容')]);
+    expect(result.matched).toEqual(['refund.md']);
+    expect(result.missed).toEqual(['invoice.md']);
+    expect(result.recall).toBe(0.5);
+  });
+
+  it('没有相关结果时未命中', () => {
+    const result = judgeCase({ id: '1', question: 'q', expectedIds: ['a.md'], expectedSnippets: [] }, []);
+    expect(result).toMatchObject({ recall: 0, reciprocalRank: 0, hit: false, firstRelevantRank: null });
+  });
+});
+
+describe('summarizeEvaluation', () => {
+  it('取各用例指标的平均值，检索失败计入错误数', () => {
+    const hit = judgeCase({ id: '1', question: 'q', expectedIds: ['a.md'], expectedSnippets: [] }, [source('x', 'a.md', '')]);
+    const failed = { ...judgeCase({ id: '2', question: 'q', expectedIds: ['a.md'], expectedSnippets: [] }, []), error: 'timeout' };
+    expect(summarizeEvaluation([hit, failed])).toEqual({ cases: 2, recallAtK: 0.5, mrr: 0.5, hitRate: 0.5, errors: 1 });
+  });
+});
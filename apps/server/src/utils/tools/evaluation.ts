@@ -0,0 +1,182 @@
+/**
+ * 检索评测
+ * 解析 JSONL 评测集与对比配置，按期望文档或答案片段判定检索结果并计算 recall@k、MRR、命中率
+ */
+import { resolveRetrievalFilter } from './filter.js';
+import type { EvaluationCase, EvaluationCaseResult, EvaluationConfig, EvaluationMetrics } from '../../types/evaluation.types.js';
+import type { RetrievalMode, RetrievedSource } from '../../types/rag.types.js';
+
+const RETRIEVAL_MODES = ['vector', 'hybrid'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((item) => typeof item === 'string' && item);
+
+// 忽略大小写与空白差异
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, '');
+
+const round = (value: number): number => Number(value.toFixed(4));
+
+/**
+ * @description: 解析单个用例
+ * @return {EvaluationCase | string} 用例，不合法时返回错误信息
+ */
+const resolveCase = (input: unknown, line: number): EvaluationCase | string => {
+  if (!isPlainObject(input)) {
+    return `第 ${line} 行: 用例必须是 JSON 对象`;
+  }
+  const { id, question, expectedIds = [], expectedSnippets = [], filter } = input;
+  if (typeof question !== 'string' || !question.trim()) {
+    return `第 ${line} 行: question 必须是非空字符串`;
+  }
+  if (!isStringArray(expectedIds) || !isStringArray(expectedSnippets)) {
+    return `第 ${line} 行: expectedIds 与 expectedSnippets 必须是非空字符串数组`;
+  }
+  if (!expectedIds.length && !expectedSnippets.length) {
+    return `第 ${line} 行: expectedIds 与 expectedSnippets 至少提供一个`;
+  }
+  // 重复的期望项只计一次，避免压低 recall
+  const testCase: EvaluationCase = {
+    id: typeof id === 'string' || typeof id === 'number' ? String(id) : String(line),
+    question,
+    expectedIds: [...new Set(expectedIds)],
+    expectedSnippets: [...new Set(expectedSnippets)],
+  };
+  if (filter !== undefined) {
+    const resolved = resolveRetrievalFilter(filter);
+    if (typeof resolved === 'string') {
+      return `第 ${line} 行: ${resolved}`;
+    }
+    testCase.filter = resolved;
+  }
+  return testCase;
+};
+
+/**
+ * @description: 解析评测集：JSONL 文本（每行一个用例，空行忽略）或用例数组
+ * @param {unknown} input
+ * @return {EvaluationCase[] | string} 用例列表，不合法时返回错误信息
+ */
+export const parseEvaluationDataset = (input: unknown): EvaluationCase[] | string => {
+  let items: { value: unknown; line: number }[];
+  if (typeof input === 'string') {
+    items = [];
+    for (const [index, text] of input.split(/\r?\n/).entries()) {
+      if (!text.trim()) continue;
+      try {
+        items.push({ value: JSON.parse(text), line: index + 1 });
+      } catch {
+        return `第 ${index + 1} 行: 不是合法的 JSON`;
+      }
+    }
+  } else if (Array.isArray(input)) {
+    items = input.map((value, index) => ({ value, line: index + 1 }));
+  } else {
+    return 'dataset 必须是 JSONL 文本或用例数组';
+  }
+  if (!items.length) {
+    return '评测集为空';
+  }
+  const cases: EvaluationCase[] = [];
+  for (const { value, line } of items) {
+    const testCase = resolveCase(value, line);
+    if (typeof testCase === 'string') return testCase;
+    cases.push(testCase);
+  }
+  return cases;
+};
+
+/**
+ * @description: 解析参与对比的检索配置，未传入时只评测默认配置
+ * @param {unknown} input 配置数组
+ * @return {EvaluationConfig[] | string} 配置列表，不合法时返回错误信息
+ */
+export const resolveEvaluationConfigs = (input: unknown): EvaluationConfig[] | string => {
+  if (input === undefined) return [{ name: 'default' }];
+  if (!Array.isArray(input) || !input.length) {
+    return 'configs 必须是非空数组';
+  }
+  const configs: EvaluationConfig[] = [];
+  for (const [index, item] of input.entries()) {
+    if (!isPlainObject(item)) {
+      return `configs[${index}] 必须是对象`;
+    }
+    const { name = `config-${index + 1}`, knowledgeBaseId, k, similarityThreshold, retrievalMode, rerank } = item;
+    if (typeof name !== 'string' || !name) return `configs[${index}].name 必须是非空字符串`;
+    if (knowledgeBaseId !== undefined && (typeof knowledgeBaseId !== 'string' || !knowledgeBaseId)) {
+      return `configs[${index}].knowledgeBaseId 必须是非空字符串`;
+    }
+    if (k !== undefined && (!Number.isInteger(k) || (k as number) < 1)) return `configs[${index}].k 必须是正整数`;
+    if (similarityThreshold !== undefined && (typeof similarityThreshold !== 'number' || similarityThreshold < 0 || similarityThreshold > 1)) {
+      return `configs[${index}].similarityThreshold 必须是 0-1 之间的数字`;
+    }
+    if (retrievalMode !== undefined && !RETRIEVAL_MODES.includes(retrievalMode as string)) {
+      return `configs[${index}].retrievalMode 只能是 ${RETRIEVAL_MODES.join(' / ')}`;
+    }
+    if (rerank !== undefined && typeof rerank !== 'boolean') return `configs[${index}].rerank 必须是布尔值`;
+    configs.push({
+      name,
+      ...(knowledgeBaseId !== undefined && { knowledgeBaseId: knowledgeBaseId as string }),
+      ...(k !== undefined && { k: k as number }),
+      ...(similarityThreshold !== undefined && { similarityThreshold }),
+      ...(retrievalMode !== undefined && { retrievalMode: retrievalMode as RetrievalMode }),
+      ...(rerank !== undefined && { rerank }),
+    });
+  }
+  const names = configs.map(({ name }) => name);
+  if (new Set(names).size !== names.length) {
+    return 'configs 的 name 不能重复';
+  }
+  return configs;
+};
+
+/**
+ * @description: 判定单个用例的检索结果：分块ID或来源文件名在 expectedIds 中、或内容包含任一期望片段的结果视为相关；
+ * recall 为命中的期望项占去重后全部期望项的比例
+ * @param {EvaluationCase} testCase 用例
+ * @param {RetrievedSource[]} sources 前 k 个检索结果
+ * @return {EvaluationCaseResult}
+ */
+export const judgeCase = (testCase: EvaluationCase, sources: RetrievedSource[]): EvaluationCaseResult => {
+  const snippets = testCase.expectedSnippets.map((snippet) => ({ snippet, normalized: normalizeText(snippet) }));
+  const matched = new Set<string>();
+  const retrieved = sources.map((source) => {
+    const sourceName = typeof source.metadata.source === 'string' ? source.metadata.source : null;
+    const content = normalizeText(source.content);
+    const ids = testCase.expectedIds.filter((id) => id === source.id || id === sourceName);
+    const found = snippets.filter(({ normalized }) => content.includes(normalized)).map(({ snippet }) => snippet);
+    [...ids, ...found].forEach((item) => matched.add(item));
+    return { id: source.id ?? '', source: sourceName, score: round(source.score), relevant: ids.length + found.length > 0 };
+  });
+  const expected = [...new Set([...testCase.expectedIds, ...testCase.expectedSnippets])];
+  const matchedItems = expected.filter((item) => matched.has(item));
+  const firstRelevant = retrieved.findIndex(({ relevant }) => relevant);
+  return {
+    id: testCase.id,
+    question: testCase.question,
+    retrieved,
+    matched: matchedItems,
+    missed: expected.filter((item) => !matched.has(item)),
+    firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+    recall: round(matchedItems.length / expected.length),
+    reciprocalRank: firstRelevant === -1 ? 0 : round(1 / (firstRelevant + 1)),
+    hit: firstRelevant !== -1,
+  };
+};
+
+/**
+ * @description: 汇总指标，检索失败的用例按未命中计入
+ * @param {EvaluationCaseResult[]} results
+ * @return {EvaluationMetrics}
+ */
+export const summarizeEvaluation = (results: EvaluationCaseResult[]): EvaluationMetrics => {
+  const average = (pick: (result: EvaluationCaseResult) => number) =>
+    results.length ? round(results.reduce((total, result) => total + pick(result), 0) / results.length) : 0;
+  return {
+    cases: results.length,
+    recallAtK: average(({ recall }) => recall),
+    mrr: average(({ reciprocalRank }) => reciprocalRank),
+    hitRate: average(({ hit }) => (hit ? 1 : 0)),
+    errors: results.filter(({ error }) => error !== undefined).length,
+  };
+};
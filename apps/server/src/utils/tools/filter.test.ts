@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { matchesFilter, resolveRetrievalFilter, UPLOADED_AT_FIELD } from './filter.js';
+
+const FIELDS = ['category', 'source', 'type', UPLOADED_AT_FIELD];
+
+describe('resolveRetrievalFilter', () => {
+  it('解析标量、数组与比较运算', () => {
+    expect(resolveRetrievalFilter({ category: 'billing', source: ['a.md', 'b.md'], type: { $ne: 'json' } }, FIELDS)).toEqual({
+      category: 'billing',
+      source: { $in: ['a.md', 'b.md'] },
+      type: { $ne: 'json' },
+    });
+  });
+
+  it('日期范围转换为导入时间戳，只给日期的 dateTo 包含当天', () => {
+    const filter = resolveRetrievalFilter({ dateFrom: '2026-01-01', dateTo: '2026-01-31' }, FIELDS);
+    expect(filter).toEqual({
+      [UPLOADED_AT_FIELD]: { $gte: Date.parse('2026-01-01'), $lte: Date.parse('2026-02-01') - 1 },
+    });
+  });
+
+  it('拒绝未声明的字段，包括运算符与嵌套路径', () => {
+    expect(resolveRetrievalFilter({ author: 'x' }, FIELDS)).toContain('不支持的字段：author');
+    expect(resolveRetrievalFilter({ $where: 'sleep(1000)' }, FIELDS)).toContain('不支持的字段：$where');
+    expect(resolveRetrievalFilter({ 'metadata.category': 'x' }, FIELDS)).toContain('不支持的字段');
+  });
+
+  it('未声明导入时间字段时不能按日期过滤', () => {
+    expect(resolveRetrievalFilter({ dateFrom: '2026-01-01' }, ['category'])).toContain('未声明为过滤字段');
+  });
+
+  it('拒绝非标量取值与不支持的运算符', () => {
+    expect(resolveRetrievalFilter({ category: { $regex: '.*' } }, FIELDS)).toContain('不支持的运算符');
+    expect(resolveRetrievalFilter({ category: { $eq: { $gt: '' } } }, FIELDS)).toContain('取值不合法');
+    expect(resolveRetrievalFilter({ category: { $in: [{}] } }, FIELDS)).toContain('取值不合法');
+    expect(resolveRetrievalFilter({ category: [] }, FIELDS)).toContain('非空');
+    expect(resolveRetrievalFilter({ category: null }, FIELDS)).toContain('取值不合法');
+    expect(resolveRetrievalFilter({ category: {} }, FIELDS)).toContain('取值不合法');
+  });
+
+  it('拒绝非对象参数与非法日期', () => {
+    expect(resolveRetrievalFilter('category=billing', FIELDS)).toBe('filter 必须是对象');
+    expect(resolveRetrievalFilter(['category'], FIELDS)).toBe('filter 必须是对象');
+    expect(resolveRetrievalFilter({ dateFrom: 'yesterday' }, FIELDS)).toContain('不是合法的日期');
+  });
+});
+
+describe('matchesFilter', () => {
+  const metadata = { category: 'billing', source: 'faq.md', [UPLOADED_AT_FIELD]: 100 };
+
+  it('多个字段之间为且关系', () => {
+    expect(matchesFilter(metadata, { category: 'billing', source: { $in: ['faq.md'] } })).toBe(true);
+    expect(matchesFilter(metadata, { category: 'billing', source: 'other.md' })).toBe(false);
+    expect(matchesFilter(metadata)).toBe(true);
+  });
+
+  it('范围比较只在类型相同时成立', () => {
+    expect(matchesFilter(metadata, { [UPLOADED_AT_FIELD]: { $gte: 100, $lt: 200 } })).toBe(true);
+    expect(matchesFilter(metadata, { [UPLOADED_AT_FIELD]: { $gt: '50' } })).toBe(false);
+    expect(matchesFilter(metadata, { category: { $nin: ['billing'] } })).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * 元数据过滤
+ * 解析请求中的过滤条件，并提供进程内的匹配实现
+ */
+import { VECTOR_STORE_CONFIG } from '../../config/index.js';
+import type { FilterCondition, FilterOperators, MetadataValue, VectorFilter } from '../../types/vector.types.js';
+
+/** 导入时间戳字段（毫秒），日期范围过滤作用于该字段 */
+export const UPLOADED_AT_FIELD = 'uploadedAtMs';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPERATORS = new Set<keyof FilterOperators>(['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte']);
+const LIST_OPERATORS = new Set<keyof FilterOperators>(['$in', '$nin']);
+
+const isMetadataValue = (value: unknown): value is MetadataValue => ['string', 'number', 'boolean'].includes(typeof value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * @description: 比较两个元数据值，类型不同时无法比较
+ * @return {number | null} 小于、等于、大于分别返回负数、0、正数
+ */
+const compare = (a: unknown, b: MetadataValue): number | null => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // 与 MongoDB 一致，字符串按码点比较
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+};
+
+/**
+ * @description: 判断单个字段是否满足条件
+ */
+const matchesCondition = (value: unknown, condition: FilterCondition): boolean => {
+  if (isMetadataValue(condition)) return value === condition;
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator as keyof FilterOperators) {
+      case '$eq':
+        return value === operand;
+      case '$ne':
+        return value !== operand;
+      case '$in':
+        return (operand as MetadataValue[]).includes(value as MetadataValue);
+      case '$nin':
+        return !(operand as MetadataValue[]).includes(value as MetadataValue);
+      case '$gt':
+        return (compare(value, operand as MetadataValue) ?? -1) > 0;
+      case '$gte':
+        return (compare(value, operand as MetadataValue) ?? -1) >= 0;
+      case '$lt':
+        return (compare(value, operand as MetadataValue) ?? 1) < 0;
+      case '$lte':
+        return (compare(value, operand as MetadataValue) ?? 1) <= 0;
+      default:
+        return false;
+    }
+  });
+};
+
+/**
+ * @description: 判断元数据是否满足过滤条件
+ * @param {Record<string, unknown>} metadata
+ * @param {VectorFilter} filter 未传入时视为全部满足
+ * @return {boolean}
+ */
+export const matchesFilter = (metadata: Record<string, unknown>, filter?: VectorFilter): boolean =>
+  !filter || Object.entries(filter).every(([key, condition]) => matchesCondition(metadata[key], condition));
+
+/**
+ * @description: 解析非标量字段的条件：数组为 $in，对象为比较运算
+ * @return {FilterOperators | string} 条件，不合法时返回错误信息
+ */
+const resolveOperators = (key: string, value: unknown): FilterOperators | string => {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(isMetadataValue) ? { $in: value } : `filter.${key} 必须是非空的字符串、数字或布尔值数组`;
+  }
+  if (!isPlainObject(value) || Object.keys(value).length === 0) {
+    return `filter.${key} 的取值不合法`;
+  }
+  for (const [operator, operand] of Object.entries(value)) {
+    if (!OPERATORS.has(operator as keyof FilterOperators)) {
+      return `filter.${key} 不支持的运算符：${operator}`;
+    }
+    const valid = LIST_OPERATORS.has(operator as keyof FilterOperators)
+      ? Array.isArray(operand) && operand.every(isMetadataValue)
+      : isMetadataValue(operand);
+    if (!valid) {
+      return `filter.${key}.${operator} 的取值不合法`;
+    }
+  }
+  return value as FilterOperators;
+};
+
+/**
+ * @description: 解析请求中的检索过滤条件
+ * 键为元数据字段（如 category、source），只能使用向量索引中声明的过滤字段；取值可为标量、数组（任一匹配）或比较运算对象；
+ * dateFrom / dateTo 为日期范围，作用于导入时间
+ * @param {unknown} input 请求参数
+ * @param {string[]} allowedFields 可用于过滤的字段，默认读取 VECTOR_FILTER_FIELDS
+ * @return {VectorFilter | string} 过滤条件，参数不合法时返回错误信息
+ */
+export const resolveRetrievalFilter = (input: unknown, allowedFields: string[] = VECTOR_STORE_CONFIG.filterFields): VectorFilter | string => {
+  if (!isPlainObject(input)) {
+    return 'filter 必须是对象';
+  }
+  const filter: VectorFilter = {};
+  const dateRange: FilterOperators = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'dateFrom' || key === 'dateTo') {
+      if (!allowedFields.includes(UPLOADED_AT_FIELD)) {
+        return `filter.${key} 不可用：${UPLOADED_AT_FIELD} 未声明为过滤字段`;
+      }
+      const time = typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+      if (Number.isNaN(time)) {
+        return `filter.${key} 不是合法的日期`;
+      }
+      // 只给日期的 dateTo 包含当天
+      const endOfDay = key === 'dateTo' && typeof value === 'string' && DATE_ONLY_PATTERN.test(value) ? DAY_MS - 1 : 0;
+      dateRange[key === 'dateFrom' ? '$gte' : '$lte'] = time + endOfDay;
+      continue;
+    }
+    // 未声明的字段在 Atlas 预过滤中会报错，字段名也不能是运算符或嵌套路径
+    if (!allowedFields.includes(key)) {
+      return `filter 不支持的字段：${key}，可用字段：${allowedFields.join(', ')}`;
+    }
+    if (isMetadataValue(value)) {
+      filter[key] = value;
+      continue;
+    }
+    const operators = resolveOperators(key, value);
+    if (typeof operators === 'string') {
+      return operators;
+    }
+    filter[key] = operators;
+  }
+  if (Object.keys(dateRange).length) {
+    filter[UPLOADED_AT_FIELD] = dateRange;
+  }
+  return filter;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { reciprocalRankFusion } from './fusion.js';
+
+const identity = (item: string): string => item;
+
+describe('reciprocalRankFusion', () => {
+  it('按 Σ weight / (k + rank) 计算得分并记录各列表名次', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: ['a', 'b'], weight: 1 },
+        { items: ['b', 'c'], weight: 1 },
+      ],
+      identity,
+      60
+    );
+    expect(fused.map(({ item }) => item)).toEqual(['b', 'a', 'c']);
+    expect(fused[0]?.score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[0]?.ranks).toEqual([2, 1]);
+    expect(fused[1]?.ranks).toEqual([1, null]);
+    expect(fused[2]?.ranks).toEqual([null, 2]);
+  });
+
+  it('权重改变两路结果的相对重要性', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: ['vector'], weight: 1 },
+        { items: ['keyword'], weight: 2 },
+      ],
+      identity
+    );
+    expect(fused.map(({ item }) => item)).toEqual(['keyword', 'vector']);
+  });
+
+  it('同一列表内重复出现时只计最高名次，保留首次出现的结果', () => {
+    const fused = reciprocalRankFusion(
+      [
+        {
+          items: [
+            { id: 'x', v: 1 },
+            { id: 'y', v: 2 },
+            { id: 'x', v: 3 },
+          ],
+          weight: 1,
+        },
+      ],
+      ({ id }) => id,
+      0
+    );
+    expect(fused).toHaveLength(2);
+    expect(fused[0]).toEqual({ item: { id: 'x', v: 1 }, score: 1, ranks: [1] });
+  });
+
+  it('空列表返回空数组', () => {
+    expect(reciprocalRankFusion<string>([], identity)).toEqual([]);
+    expect(reciprocalRankFusion([{ items: [], weight: 1 }], identity)).toEqual([]);
+  });
+});
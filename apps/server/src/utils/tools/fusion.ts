@@ -0,0 +1,47 @@
+/**
+ * @description 参与融合的排序列表
+ * @param  items - 按相关度从高到低排序的结果
+ * @param  weight - 该列表的权重
+ */
+export interface RankedList<T> {
+  items: T[];
+  weight: number;
+}
+
+/**
+ * @description 融合后的结果
+ * @param  item - 首次出现时的原始结果
+ * @param  score - 融合得分
+ * @param  ranks - 在各列表中的名次（从 1 开始），未出现时为 null
+ */
+export interface FusedItem<T> {
+  item: T;
+  score: number;
+  ranks: (number | null)[];
+}
+
+/**
+ * @description: 倒数排名融合（RRF）：score = Σ weight / (k + rank)，只依赖名次，不要求各列表得分可比
+ * @param {RankedList<T>[]} lists 参与融合的列表
+ * @param {(item: T) => string} getKey 结果去重的键
+ * @param {number} k 平滑常数，越大则名次靠后的结果影响越大
+ * @return {FusedItem<T>[]} 按融合得分从高到低排序
+ */
+export const reciprocalRankFusion = <T>(lists: RankedList<T>[], getKey: (item: T) => string, k = 60): FusedItem<T>[] => {
+  const fused = new Map<string, FusedItem<T>>();
+  lists.forEach(({ items, weight }, listIndex) => {
+    items.forEach((item, index) => {
+      const key = getKey(item);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { item, score: 0, ranks: lists.map(() => null) };
+        fused.set(key, entry);
+      }
+      // 同一列表内重复出现时只计最高名次
+      if (entry.ranks[listIndex] !== null) return;
+      entry.ranks[listIndex] = index + 1;
+      entry.score += weight / (k + index + 1);
+    });
+  });
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { AIMessage, HumanMessage, type BaseMessage } from '@langchain/core/messages';
+import { recentTurnsStart, resolveSummaryEnd, summaryUpdateFilter } from './history.js';
+
+// 每条消息约 25 个估算 token
+const turn = (index: number): BaseMessage[] => [new HumanMessage(`问题${index}`.padEnd(20, '问')), new AIMessage(`回答${index}`.padEnd(20, '答'))];
+const conversation = (turns: number): BaseMessage[] => Array.from({ length: turns }, (_, index) => turn(index)).flat();
+
+describe('recentTurnsStart', () => {
+  it('返回倒数第 n 条用户消息的位置', () => {
+    expect(recentTurnsStart(conversation(4), 2)).toBe(4);
+    expect(recentTurnsStart(conversation(4), 4)).toBe(0);
+  });
+
+  it('轮数不足时返回 0，不保留轮次时返回消息数量', () => {
+    expect(recentTurnsStart(conversation(2), 5)).toBe(0);
+    expect(recentTurnsStart(conversation(2), 0)).toBe(4);
+  });
+});
+
+describe('resolveSummaryEnd', () => {
+  it('未超过阈值时不摘要', () => {
+    expect(resolveSummaryEnd(conversation(4), 2, 10_000)).toBe(0);
+  });
+
+  it('超过阈值时并入最近若干轮之前的消息', () => {
+    expect(resolveSummaryEnd(conversation(4), 2, 50)).toBe(4);
+  });
+
+  it('最近若干轮本身超过阈值时按 token 从最早的消息起并入', () => {
+    const messages = conversation(2);
+    const end = resolveSummaryEnd(messages, 6, 60);
+    expect(end).toBeGreaterThan(0);
+    expect(end).toBeLessThan(messages.length);
+    expect(resolveSummaryEnd(messages.slice(end), 6, 60)).toBe(0);
+  });
+
+  it('至少保留最后一条消息', () => {
+    const messages = [new HumanMessage('长'.repeat(200)), new AIMessage('长'.repeat(200))];
+    expect(resolveSummaryEnd(messages, 6, 10)).toBe(1);
+    expect(resolveSummaryEnd(messages.slice(1), 6, 10)).toBe(0);
+  });
+});
+
+describe('summaryUpdateFilter', () => {
+  it('尚无摘要时要求摘要字段不存在', () => {
+    expect(summaryUpdateFilter('s1', undefined, 4)).toEqual({
+      sessionId: 's1',
+      messageCount: { $gte: 4 },
+      'summary.summarizedCount': { $exists: false },
+    });
+  });
+
+  it('已有摘要时要求摘要进度未变化', () => {
+    expect(summaryUpdateFilter('s1', 0, 2)).toMatchObject({ 'summary.summarizedCount': 0 });
+    expect(summaryUpdateFilter('s1', 6, 10)).toMatchObject({ messageCount: { $gte: 10 }, 'summary.summarizedCount': 6 });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 对话历史压缩
+ * 计算滚动摘要需要并入的消息范围，不依赖数据库与模型
+ */
+import { getBufferString, type BaseMessage } from '@langchain/core/messages';
+import { estimateTokens } from './token.js';
+
+/**
+ * @description: 最近若干轮对话的起始位置：从后往前数第 turns 条用户消息
+ * @param {BaseMessage[]} messages 消息列表
+ * @param {number} turns 轮数，不大于 0 时返回消息数量
+ * @return {number} 用户消息不足 turns 条时返回 0
+ */
+export const recentTurnsStart = (messages: BaseMessage[], turns: number): number => {
+  if (turns <= 0) {
+    return messages.length;
+  }
+  let count = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]?.getType() === 'human' && ++count === turns) {
+      return i;
+    }
+  }
+  return 0;
+};
+
+/**
+ * @description: 计算需要并入摘要的消息数量：估算 token 数未超过阈值时不摘要；
+ * 否则并入最近若干轮之前的消息，最近若干轮本身已超过阈值时从最早的消息起并入，直到剩余消息不超过阈值，至少保留最后一条
+ * @param {BaseMessage[]} pending 尚未并入摘要的消息
+ * @param {number} recentTurns 原样保留的最近对话轮数
+ * @param {number} tokenThreshold 估算 token 阈值
+ * @return {number} 从 pending 开头起需要并入摘要的消息数量，0 表示无需更新
+ */
+export const resolveSummaryEnd = (pending: BaseMessage[], recentTurns: number, tokenThreshold: number): number => {
+  const tokens = pending.map((message) => estimateTokens(getBufferString([message])));
+  let remaining = tokens.reduce((total, count) => total + count, 0);
+  if (remaining <= tokenThreshold) {
+    return 0;
+  }
+  const end = recentTurnsStart(pending, recentTurns);
+  if (end > 0) {
+    return end;
+  }
+  let index = 0;
+  while (index < pending.length - 1 && remaining > tokenThreshold) {
+    remaining -= tokens[index] ?? 0;
+    index++;
+  }
+  return index;
+};
+
+/**
+ * @description: 写入摘要的条件：会话仍至少包含 end 条消息，且摘要进度与生成摘要前读取的一致；
+ * 摘要生成期间会话被清空或由其他任务更新时不匹配，避免覆盖较新的摘要
+ * @param {string} sessionId 会话ID
+ * @param {number | undefined} summarizedCount 生成摘要前读取的已摘要消息数量，尚无摘要时为 undefined
+ * @param {number} end 本次摘要后的已摘要消息数量
+ * @return {Record<string, unknown>} 会话文档的查询条件
+ */
+export const summaryUpdateFilter = (sessionId: string, summarizedCount: number | undefined, end: number): Record<string, unknown> => ({
+  sessionId,
+  messageCount: { $gte: end },
+  'summary.summarizedCount': summarizedCount ?? { $exists: false },
+});
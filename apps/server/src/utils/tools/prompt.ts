@@ -1,8 +1,64 @@
-import type { DocumentInterface } from '@langchain/core/documents';
 import { PromptTemplate } from '@langchain/core/prompts';
+import type { PromptTemplateType } from '../../types/promptTemplate.types.js';
+import type { RagPromptTemplate, RetrievedSource } from '../../types/rag.types.js';
+
+// RAG 提示词中由检索填入的变量
+export const RAG_PROMPT_VARIABLES = ['context', 'question'];
+
+/**
+ * @description: 提取模板中的变量，变量使用 {name} 形式，字面量花括号写作 {{ 与 }}
+ * @param {string} template 模板内容
+ * @return {string[] | string} 去重后的变量名，模板不合法时返回错误信息
+ */
+const extractTemplateVariables = (template: string): string[] | string => {
+  try {
+    return [...new Set(PromptTemplate.fromTemplate(template).inputVariables)];
+  } catch (error) {
+    return `模板格式不合法：${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+const VARIABLE_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * @description: 校验模板内容与声明的变量：声明的变量必须与模板中使用的变量一致，RAG 模板必须包含 {context} 与 {question}
+ * @param {PromptTemplateType} type 模板类型
+ * @param {string} template 模板内容
+ * @param {string[]} declared 声明的变量，未声明时使用模板中提取的变量
+ * @return {string[] | string} 模板变量，不合法时返回错误信息
+ */
+const validatePromptTemplate = (type: PromptTemplateType, template: string, declared?: string[]): string[] | string => {
+  const used = extractTemplateVariables(template);
+  if (typeof used === 'string') return used;
+  const invalid = used.filter((name) => !VARIABLE_PATTERN.test(name));
+  if (invalid.length) {
+    return `变量名只能包含字母、数字和下划线，且不能以数字开头：${invalid.join(', ')}`;
+  }
+  if (type === 'rag') {
+    const missing = RAG_PROMPT_VARIABLES.filter((name) => !used.includes(name));
+    if (missing.length) return `RAG 模板必须包含变量：${missing.map((name) => `{${name}}`).join(', ')}`;
+  }
+  if (!declared) return used;
+  const undeclared = used.filter((name) => !declared.includes(name));
+  if (undeclared.length) return `模板中的变量未声明：${undeclared.join(', ')}`;
+  const unused = declared.filter((name) => !used.includes(name));
+  if (unused.length) return `声明的变量未在模板中使用：${unused.join(', ')}`;
+  return [...new Set(declared)];
+};
+
+/**
+ * @description: 渲染模板，缺少变量时抛出异常
+ * @param {string} template 模板内容
+ * @param {Record<string, string>} values 变量取值
+ * @return {Promise<string>}
+ */
+const renderPromptTemplate = (template: string, values: Record<string, string>): Promise<string> => {
+  return PromptTemplate.fromTemplate(template).format(values);
+};
 
 const ragPromptTemplate = PromptTemplate.fromTemplate(
   `基于以下相关上下文信息回答问题。如果上下文中没有相关信息，请基于你的知识回答。
+  上下文中的每条资料都有编号，引用资料时请在对应句子末尾用方括号标注编号，例如 [1] 或 [1][3]，不要编造不存在的编号。
 
   相关上下文：
   {context}
@@ -11,11 +67,19 @@ const ragPromptTemplate = PromptTemplate.fromTemplate(
 
   请提供准确、详细的回答：`
 );
-const formatRagPrompt = (context: string, question: string) => {
+const formatRagPrompt = (context: string, question: string, promptTemplate?: RagPromptTemplate) => {
+  if (promptTemplate) {
+    return renderPromptTemplate(promptTemplate.template, { ...promptTemplate.variables, context, question });
+  }
   return ragPromptTemplate.format({ context, question });
 };
 
-const formatContext = (docs: DocumentInterface[]) => {
-  return docs.map((doc, index) => `${index + 1}. ${doc.pageContent}`).join('\n\n');
+const formatContext = (sources: RetrievedSource[]) => {
+  return sources
+    .map(({ index, content, metadata }) => {
+      const label = typeof metadata.source === 'string' ? `（来源：${metadata.source}）` : '';
+      return `[${index}]${label}\n${content}`;
+    })
+    .join('\n\n');
 };
-export { formatRagPrompt, formatContext };
+export { formatRagPrompt, formatContext, extractTemplateVariables, validatePromptTemplate, renderPromptTemplate };
@@ -0,0 +1,48 @@
+import type { DistanceMetric, ScoreDirection } from '../../types/vector.types.js';
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * @description: 将向量库返回的原始得分统一为 0-1 之间、越大越相似的分数
+ * 余弦与点积的结果与 Atlas 保持一致：(1 + cos) / 2；欧氏距离换算为 1 / (1 + d)
+ * @param {number} raw 原始得分
+ * @param {ScoreDirection} direction 原始得分的方向
+ * @param {DistanceMetric} metric 相似度度量方式
+ * @return {number}
+ */
+export const normalizeScore = (raw: number, direction: ScoreDirection, metric: DistanceMetric): number => {
+  // Atlas 的 vectorSearchScore 已按度量方式归一化到 0-1
+  if (direction === 'similarity') return clamp(raw);
+  switch (metric) {
+    case 'cosine':
+    case 'dotProduct':
+      // Chroma 的 cosine / ip 距离为 1 - cos，取值 0-2
+      return clamp(1 - raw / 2);
+    case 'euclidean':
+      // Chroma 的 l2 为平方欧氏距离
+      return clamp(1 / (1 + raw));
+  }
+};
+
+/**
+ * @description: 计算两个向量的余弦相似度，取值 -1 到 1，任一向量为零向量时返回 0
+ * @param {number[]} a
+ * @param {number[]} b
+ * @return {number}
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) {
+    throw new Error(`向量维度不一致：${a.length} 与 ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, index) => {
+    const other = b[index] ?? 0;
+    dot += value * other;
+    normA += value * value;
+    normB += other * other;
+  });
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createChunkId, mergeRetrievedSources, summarizeSources } from './source.js';
+import type { RetrievedSource } from '../../types/rag.types.js';
+
+describe('createChunkId', () => {
+  it('相同输入得到相同ID，与元数据键的顺序无关', () => {
+    const id = createChunkId('faq.md', 'markdown', 0, '退款需 3-5 个工作日', { category: 'billing', lang: 'zh' });
+    expect(id).toMatch(/^[0-9a-f]{64}$/);
+    expect(createChunkId('faq.md', 'markdown', 0, '退款需 3-5 个工作日', { lang: 'zh', category: 'billing' })).toBe(id);
+  });
+
+  it('来源、类型、序号、内容或元数据变化时ID不同', () => {
+    const base = createChunkId('faq.md', 'markdown', 0, '内容', {});
+    const variants = [
+      createChunkId('help.md', 'markdown', 0, '内容', {}),
+      createChunkId('faq.md', 'text', 0, '内容', {}),
+      createChunkId('faq.md', 'markdown', 1, '内容', {}),
+      createChunkId('faq.md', 'markdown', 0, '内容。', {}),
+      createChunkId('faq.md', 'markdown', 0, '内容', { category: 'billing' }),
+    ];
+    expect(new Set([base, ...variants]).size).toBe(variants.length + 1);
+  });
+
+  it('字段拼接不会产生碰撞', () => {
+    expect(createChunkId('a', 'text', 1, 'bc', {})).not.toBe(createChunkId('ab', 'text', 1, 'c', {}));
+  });
+});
+
+describe('summarizeSources', () => {
+  it('按来源统计分块数量与最近导入时间，忽略缺少来源的分块', () => {
+    expect(
+      summarizeSources([
+        { source: 'b.md', uploadedAt: '2026-01-01T00:00:00.000Z' },
+        { source: 'a.md', uploadedAt: '2026-01-02T00:00:00.000Z' },
+        { source: 'b.md', uploadedAt: '2026-01-03T00:00:00.000Z' },
+        { category: 'billing' },
+      ])
+    ).toEqual([
+      { source: 'a.md', chunks: 1, uploadedAt: '2026-01-02T00:00:00.000Z' },
+      { source: 'b.md', chunks: 2, uploadedAt: '2026-01-03T00:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('mergeRetrievedSources', () => {
+  const source = (id: string, score: number): RetrievedSource => ({ index: 0, id, content: id, metadata: {}, score });
+
+  it('按名次合并两个知识库，得分尺度不同时不会被一方挤占', () => {
+    // 知识库 A 的得分整体偏高，按得分排序时会占满全部名额
+    const baseA = [source('a1', 0.99), source('a2', 0.98), source('a3', 0.97)];
+    const baseB = [source('b1', 0.4), source('b2', 0.3)];
+    const merged = mergeRetrievedSources([baseA, baseB], 4);
+    expect(merged.map(({ id }) => id)).toEqual(['a1', 'b1', 'a2', 'b2']);
+    expect(merged.map(({ index }) => index)).toEqual([1, 2, 3, 4]);
+    expect(merged[1]?.score).toBe(0.4);
+  });
+
+  it('同一文档只保留一次，在多个知识库中出现时排名提前', () => {
+    const merged = mergeRetrievedSources(
+      [
+        [source('a1', 0.9), source('shared', 0.8)],
+        [source('b1', 0.9), source('shared', 0.7)],
+      ],
+      10
+    );
+    expect(merged.map(({ id }) => id)).toEqual(['shared', 'a1', 'b1']);
+    expect(merged[0]?.score).toBe(0.8);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * 来源管理
+ * 分块ID计算、来源统计与多知识库结果合并，不支持聚合查询的后端（内存、Chroma）在进程内按元数据 source 分组
+ */
+import { createHash } from 'node:crypto';
+import { reciprocalRankFusion } from './fusion.js';
+import type { DocumentType } from '../../types/knowledge.types.js';
+import type { RetrievedSource } from '../../types/rag.types.js';
+import type { SourceSummary } from '../../types/vector.types.js';
+
+/**
+ * @description: 计算分块ID：来源、类型、序号、内容与附加元数据的哈希，内容不变时ID不变，重复导入即覆盖写入同一文档
+ * @param {string} source 来源文件名
+ * @param {DocumentType} type 文档类型
+ * @param {number} index 分块序号
+ * @param {string} content 分块内容
+ * @param {Record<string, unknown>} metadata 附加元数据，与键的顺序无关
+ * @return {string} 十六进制 SHA-256
+ */
+export const createChunkId = (source: string, type: DocumentType, index: number, content: string, metadata: Record<string, unknown>): string => {
+  const sortedMetadata = Object.entries(metadata).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('sha256')
+    .update(JSON.stringify([source, type, index, content, sortedMetadata]))
+    .digest('hex');
+};
+
+/**
+ * @description: 按来源分组统计分块数量与最近导入时间
+ * @param {Record<string, unknown>[]} metadatas 各分块的元数据
+ * @return {SourceSummary[]} 按来源名排序，缺少 source 的分块不计入
+ */
+export const summarizeSources = (metadatas: Record<string, unknown>[]): SourceSummary[] => {
+  const summaries = new Map<string, SourceSummary>();
+  for (const metadata of metadatas) {
+    if (typeof metadata.source !== 'string') continue;
+    const summary = summaries.get(metadata.source) ?? { source: metadata.source, chunks: 0, uploadedAt: null };
+    summary.chunks += 1;
+    // ISO 时间字符串可直接按字典序比较
+    if (typeof metadata.uploadedAt === 'string' && (!summary.uploadedAt || metadata.uploadedAt > summary.uploadedAt)) {
+      summary.uploadedAt = metadata.uploadedAt;
+    }
+    summaries.set(metadata.source, summary);
+  }
+  return [...summaries.values()].sort((a, b) => (a.source < b.source ? -1 : a.source > b.source ? 1 : 0));
+};
+
+/**
+ * @description: 合并多个知识库的检索结果：各知识库的得分尺度不同（融合得分、向量相似度或重排得分），不能直接比较，
+ * 按倒数排名融合排序，同一文档只保留一次并保留原始得分，合并后统一编号
+ * @param {RetrievedSource[][]} results 各知识库按相关度从高到低排序的结果
+ * @param {number} limit 保留数量
+ * @return {RetrievedSource[]} 合并后的来源，编号从 1 开始
+ */
+export const mergeRetrievedSources = (results: RetrievedSource[][], limit: number): RetrievedSource[] =>
+  reciprocalRankFusion(
+    results.map((items) => ({ items, weight: 1 })),
+    (source) => source.id ?? source.content
+  )
+    .slice(0, limit)
+    .map(({ item }, index) => ({ ...item, index: index + 1 }));
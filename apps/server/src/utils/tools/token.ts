@@ -0,0 +1,17 @@
+/**
+ * Token 估算
+ * 不依赖具体模型的分词器，用于判断对话历史是否需要压缩
+ */
+
+// 中日韩字符约 1 个 token，其余字符约 4 个字符 1 个 token
+const CJK_PATTERN = /[぀-ヿ㐀-鿿가-힯豈-﫿]/g;
+
+/**
+ * @description: 粗略估算文本的 token 数
+ * @param {string} text 文本
+ * @return {number}
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};